@@ -15,6 +15,11 @@ import type {
   ModelOption,
 } from "../types";
 import { COPILOT_CLIENT_ID } from "../types";
+import { SseChatParser } from "./sse";
+import type { StreamCallbacks, StreamResult } from "./sse";
+import { streamRequest } from "./transport";
+import { errorStatus, responseError, withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
 
 const COMMON_HEADERS: Record<string, string> = {
   "Content-Type": "application/json",
@@ -70,11 +75,14 @@ export async function fetchToken(pat: string): Promise<TokenResponse> {
 
 export async function ensureValidToken(
   authState: AuthState,
-  onUpdate: (auth: Partial<AuthState>) => void
+  onUpdate: (auth: Partial<AuthState>) => void,
+  /** Fetch a new token even if the stored one has not expired */
+  forceRefresh = false
 ): Promise<string> {
   const { accessToken, pat } = authState;
 
   if (
+    !forceRefresh &&
     accessToken.token &&
     accessToken.expiresAt &&
     Date.now() < accessToken.expiresAt * 1000
@@ -97,45 +105,89 @@ export async function ensureValidToken(
   return tokenResponse.token;
 }
 
+/**
+ * Run a Copilot API request with a valid token, retrying rate limits,
+ * server errors and network failures. A 401 fetches a new token once, in
+ * case the stored one was revoked early, before giving up.
+ */
+export async function withCopilotToken<T>(
+  authState: AuthState,
+  onUpdate: (auth: Partial<AuthState>) => void,
+  request: (token: string) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  let forceRefresh = false;
+  let refreshed = false;
+  return withRetry(async () => {
+    for (;;) {
+      const token = await ensureValidToken(authState, onUpdate, forceRefresh);
+      forceRefresh = false;
+      try {
+        return await request(token);
+      } catch (err) {
+        if (refreshed || errorStatus(err) !== 401) throw err;
+        refreshed = forceRefresh = true;
+      }
+    }
+  }, options);
+}
+
 // --- Available Models ---
 
 export async function fetchAvailableModels(
     authState: AuthState,
     onUpdate: (auth: Partial<AuthState>) => void
 ): Promise<ModelOption[]> {
-    const token = await ensureValidToken(authState, onUpdate);
-    const response = await requestUrl({
-        url: "https://api.githubcopilot.com/models",
-        method: "GET",
-        headers: {
-            Accept: "application/json",
-            "editor-version": "vscode/1.80.1",
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-        },
-    });
-    const data = response.json as { data: Array<{ id: string; name?: string; capabilities?: { type?: string[] } }> };
+    const response = await withCopilotToken(
+        authState,
+        onUpdate,
+        async (token) => {
+            const response = await requestUrl({
+                url: "https://api.githubcopilot.com/models",
+                method: "GET",
+                headers: {
+                    Accept: "application/json",
+                    "editor-version": "vscode/1.80.1",
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json",
+                },
+                throw: false,
+            });
+            const error = responseError(response);
+            if (error) throw error;
+            return response;
+        }
+    );
+    const data = response.json as {
+        data: Array<{
+            id: string;
+            name?: string;
+            capabilities?: {
+                type?: string[];
+                limits?: { max_prompt_tokens?: number };
+            };
+        }>;
+    };
     // Filter to chat-capable models and map to ModelOption
     return data.data
         .filter((m) => !m.capabilities?.type || m.capabilities.type.includes("chat"))
-        .map((m) => ({ label: m.name ?? m.id, value: m.id }))
+        .map((m) => ({
+            label: m.name ?? m.id,
+            value: m.id,
+            maxPromptTokens: m.capabilities?.limits?.max_prompt_tokens,
+        }))
         .sort((a, b) => a.label.localeCompare(b.label));
 }
 
 // --- Streaming Chat Completion ---
 
-export interface StreamCallbacks {
-  onContent: (delta: string) => void;
-  onToolCall: (toolCall: { id: string; type: "function"; function: { name: string; arguments: string } }) => void;
-  onDone: (finishReason: string) => void;
-  onError: (error: string) => void;
-}
+export type { StreamCallbacks, StreamResult } from "./sse";
 
 /**
- * Send a chat completion request using requestUrl with stream: true.
- * requestUrl buffers the entire SSE response, then we parse all events
- * and call callbacks sequentially. This preserves correct finish_reason
- * behavior for the agentic tool-call loop.
+ * Send a chat completion request with stream: true. On desktop the SSE
+ * body is parsed chunk by chunk as it arrives, so content deltas reach
+ * `onContent` in real time; on mobile the body is buffered by requestUrl
+ * and replayed through the same parser.
  */
 export async function sendChatCompletionStream(
   token: string,
@@ -144,7 +196,7 @@ export async function sendChatCompletionStream(
   callbacks: StreamCallbacks,
   tools?: ToolDefinition[],
   abortSignal?: AbortSignal
-): Promise<{ content: string; toolCalls: { id: string; type: "function"; function: { name: string; arguments: string } }[]; finishReason: string }> {
+): Promise<StreamResult> {
   if (abortSignal?.aborted) {
     throw new Error("Request aborted");
   }
@@ -160,118 +212,40 @@ export async function sendChatCompletionStream(
     ...(tools && tools.length > 0 ? { tools, tool_choice: "auto" } : {}),
   };
 
-  const response = await requestUrl({
-    url: "https://api.githubcopilot.com/chat/completions",
-    method: "POST",
-    headers: {
-      Accept: "text/event-stream",
-      "editor-version": "vscode/1.80.1",
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
+  const parser = new SseChatParser(callbacks);
+
+  await streamRequest(
+    {
+      url: "https://api.githubcopilot.com/chat/completions",
+      method: "POST",
+      headers: {
+        Accept: "text/event-stream",
+        "editor-version": "vscode/1.80.1",
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
     },
-    body: JSON.stringify(request),
-  });
-
-  // Parse SSE events from the buffered response text
-  let fullContent = "";
-  const toolCallAccumulator = new Map<
-    number,
-    { id: string; name: string; arguments: string }
-  >();
-  let finishReason = "stop";
-
-  const lines = response.text.split("\n");
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || !trimmed.startsWith("data: ")) continue;
-
-    const data = trimmed.slice(6);
-    if (data === "[DONE]") continue;
-
-    try {
-      const chunk = JSON.parse(data) as {
-        choices?: Array<{
-          delta?: {
-            content?: string;
-            tool_calls?: Array<{
-              index?: number;
-              id?: string;
-              function?: { name?: string; arguments?: string };
-            }>;
-          };
-          finish_reason?: string;
-        }>;
-      };
-      const delta = chunk.choices?.[0]?.delta;
-      const chunkFinishReason = chunk.choices?.[0]?.finish_reason;
-
-      if (chunkFinishReason) {
-        finishReason = chunkFinishReason;
-      }
-
-      if (!delta) continue;
-
-      // Content delta
-      if (delta.content) {
-        fullContent += delta.content;
-        callbacks.onContent(delta.content);
-      }
-
-      // Tool call deltas
-      if (delta.tool_calls) {
-        for (const tc of delta.tool_calls) {
-          const idx = tc.index ?? 0;
-
-          if (!toolCallAccumulator.has(idx)) {
-            toolCallAccumulator.set(idx, {
-              id: tc.id ?? "",
-              name: tc.function?.name ?? "",
-              arguments: "",
-            });
-          }
-
-          const acc = toolCallAccumulator.get(idx)!;
-          if (tc.id) acc.id = tc.id;
-          if (tc.function?.name) acc.name = tc.function.name;
-          if (tc.function?.arguments) {
-            acc.arguments += tc.function.arguments;
-          }
-        }
-      }
-    } catch {
-      // Skip malformed JSON chunks
-    }
-  }
-
-  // Build final tool calls array
-  const toolCalls: { id: string; type: "function"; function: { name: string; arguments: string } }[] = [];
-  const sortedEntries = [...toolCallAccumulator.entries()].sort(
-    ([a], [b]) => a - b
+    (chunk) => parser.push(chunk),
+    abortSignal
   );
-  for (const [, acc] of sortedEntries) {
-    const toolCall = {
-      id: acc.id,
-      type: "function" as const,
-      function: {
-        name: acc.name,
-        arguments: acc.arguments,
-      },
-    };
-    toolCalls.push(toolCall);
-    callbacks.onToolCall(toolCall);
-  }
 
-  callbacks.onDone(finishReason);
-  return { content: fullContent, toolCalls, finishReason };
+  return parser.finish();
 }
 
-// --- Non-streaming fallback (kept for simple requests) ---
+// --- Non-streaming completion (for simple requests) ---
 
+/**
+ * Send a chat completion request without streaming. Goes through the same
+ * transport as sendChatCompletionStream, so it can be stopped and fails
+ * with an HttpError that withRetry understands.
+ */
 export async function sendChatCompletion(
   token: string,
   model: ModelOption,
   messages: ChatMessage[],
-  tools?: ToolDefinition[]
+  tools?: ToolDefinition[],
+  abortSignal?: AbortSignal
 ): Promise<ChatCompletionResponse> {
   const request: ChatCompletionRequest = {
     intent: false,
@@ -284,17 +258,50 @@ export async function sendChatCompletion(
     ...(tools && tools.length > 0 ? { tools, tool_choice: "auto" } : {}),
   };
 
+  let body = "";
+  await streamRequest(
+    {
+      url: "https://api.githubcopilot.com/chat/completions",
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "editor-version": "vscode/1.80.1",
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    },
+    (chunk) => {
+      body += chunk;
+    },
+    abortSignal
+  );
+
+  return JSON.parse(body) as ChatCompletionResponse;
+}
+
+// --- Embeddings ---
+
+/**
+ * Embed `input` with an OpenAI-compatible `/embeddings` endpoint. Used for
+ * Copilot and for local servers such as Ollama.
+ */
+export async function fetchEmbeddings(
+  url: string,
+  headers: Record<string, string>,
+  model: string,
+  input: string[]
+): Promise<number[][]> {
   const response = await requestUrl({
-    url: "https://api.githubcopilot.com/chat/completions",
+    url,
     method: "POST",
-    headers: {
-      Accept: "*/*",
-      "editor-version": "vscode/1.80.1",
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(request),
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ model, input }),
   });
-
-  return response.json as ChatCompletionResponse;
+  const data = response.json as {
+    data: { index: number; embedding: number[] }[];
+  };
+  return [...data.data]
+    .sort((a, b) => a.index - b.index)
+    .map((d) => d.embedding);
 }
@@ -0,0 +1,270 @@
+// ============================================================
+// Context Window - Token budgeting and history compaction
+// ============================================================
+
+import type {
+  ChatMessage,
+  ConversationMessage,
+  ModelOption,
+  ToolDefinition,
+} from "../types";
+
+/** Prompt limit for models that do not report one */
+export const DEFAULT_MAX_PROMPT_TOKENS = 64_000;
+
+/**
+ * Rough characters-per-token ratio. Deliberately low: code, JSON and
+ * non-English text tokenize worse than English prose.
+ */
+const CHARS_PER_TOKEN = 3.5;
+
+/** Per-message framing overhead (role, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Keep this share of the limit free to absorb estimation error */
+const SAFETY_MARGIN = 0.1;
+
+/** Tool outputs from earlier turns are cut to this many characters */
+const OLD_TOOL_OUTPUT_CHARS = 1_000;
+
+/** Last resort for oversized outputs within the turn in progress */
+const CURRENT_TOOL_OUTPUT_CHARS = 8_000;
+
+/** Room reserved for the summary of dropped turns */
+const SUMMARY_RESERVE_TOKENS = 1_500;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(msg: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(msg.content ?? "");
+  for (const tc of msg.tool_calls ?? []) {
+    tokens += estimateTokens(tc.function.name + tc.function.arguments);
+  }
+  return tokens;
+}
+
+function sumTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+}
+
+/**
+ * Tokens available for the conversation once the fixed parts of the
+ * request (system messages and tool definitions) are accounted for.
+ */
+export function getHistoryBudget(
+  model: ModelOption,
+  systemMessages: ChatMessage[],
+  tools: ToolDefinition[] | undefined,
+  scale = 1
+): number {
+  const limit = (model.maxPromptTokens ?? DEFAULT_MAX_PROMPT_TOKENS) * scale;
+  const fixed =
+    sumTokens(systemMessages) +
+    (tools ? estimateTokens(JSON.stringify(tools)) : 0);
+  return Math.max(0, Math.floor(limit * (1 - SAFETY_MARGIN) - fixed));
+}
+
+/** Whether an API error means the prompt was too long for the model */
+export function isContextLengthError(message: string): boolean {
+  return /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|exceeds? .*token/i.test(
+    message
+  );
+}
+
+export function toApiMessage(msg: ConversationMessage): ChatMessage | null {
+  if (msg.role === "user" || msg.role === "assistant") {
+    const apiMsg: ChatMessage = { role: msg.role, content: msg.content };
+    if (msg.toolCalls && msg.toolCalls.length > 0) {
+      apiMsg.tool_calls = msg.toolCalls;
+      apiMsg.content = msg.content || null;
+    }
+    return apiMsg;
+  }
+  if (msg.role === "tool" && msg.toolCallId) {
+    return { role: "tool", content: msg.content, tool_call_id: msg.toolCallId };
+  }
+  return null;
+}
+
+/** Pinned messages survive compaction as plain text, without tool calls */
+function toPinnedMessage(msg: ConversationMessage): ChatMessage | null {
+  if ((msg.role !== "user" && msg.role !== "assistant") || !msg.content) {
+    return null;
+  }
+  return { role: msg.role, content: msg.content };
+}
+
+function elide(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  const omitted = content.length - maxChars;
+  return `${content.slice(0, maxChars)}\n[... ${omitted} more characters elided to save context. Call the tool again if you need the full output.]`;
+}
+
+/**
+ * A user message and the assistant/tool messages answering it. Turns are
+ * dropped or summarized as a whole so tool results never lose the
+ * assistant message that requested them.
+ */
+interface Turn {
+  source: ConversationMessage[];
+  messages: ChatMessage[];
+}
+
+function splitTurns(messages: ConversationMessage[]): Turn[] {
+  const turns: Turn[] = [];
+  for (const msg of messages) {
+    const apiMsg = toApiMessage(msg);
+    if (!apiMsg) continue;
+    if (msg.role === "user" || turns.length === 0) {
+      turns.push({ source: [], messages: [] });
+    }
+    const turn = turns[turns.length - 1];
+    turn.source.push(msg);
+    turn.messages.push(apiMsg);
+  }
+  return turns;
+}
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  /** Unpinned earlier messages that no longer fit; summarize and retry */
+  overflow: ConversationMessage[];
+  /** Last message of the dropped turns; the summary is stored on it */
+  overflowThroughId: string | null;
+  estimatedTokens: number;
+}
+
+/**
+ * Fit the conversation into `budget` tokens. In order, until it fits:
+ * 1. Everything up to the last message carrying a `contextSummary` is
+ *    replaced by that summary (pinned messages are kept).
+ * 2. Tool outputs of earlier turns are elided, oldest first.
+ * 3. Whole earlier turns are dropped, oldest first, and returned as
+ *    `overflow` for the caller to summarize.
+ * 4. Tool outputs of the turn in progress are elided, oldest first.
+ *
+ * `current` (the turn in progress) is never dropped.
+ */
+export function compactHistory(
+  history: ConversationMessage[],
+  current: ConversationMessage[],
+  budget: number
+): CompactionResult {
+  const head: ChatMessage[] = [];
+
+  let start = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const summary = history[i].contextSummary;
+    if (summary) {
+      // System first: it follows the other system messages directly
+      head.push({
+        role: "system",
+        content: `Summary of the earlier conversation:\n${summary}`,
+      });
+      for (const msg of history.slice(0, i + 1)) {
+        if (!msg.pinned) continue;
+        const pinned = toPinnedMessage(msg);
+        if (pinned) head.push(pinned);
+      }
+      start = i + 1;
+      break;
+    }
+  }
+
+  const earlier = splitTurns(history.slice(start));
+  const currentTurn = splitTurns(current).flatMap((t) => t.messages);
+
+  const total = () =>
+    sumTokens(head) +
+    earlier.reduce((sum, t) => sum + sumTokens(t.messages), 0) +
+    sumTokens(currentTurn);
+
+  let tokens = total();
+
+  // 2. Elide old tool outputs
+  for (const turn of earlier) {
+    if (tokens <= budget) break;
+    turn.messages = turn.messages.map((m) => {
+      if (m.role !== "tool" || !m.content) return m;
+      return { ...m, content: elide(m.content, OLD_TOOL_OUTPUT_CHARS) };
+    });
+    tokens = total();
+  }
+
+  // 3. Drop whole turns
+  const overflow: ConversationMessage[] = [];
+  let overflowThroughId: string | null = null;
+  const keptPinned: ChatMessage[] = [];
+  if (tokens > budget) {
+    const target = budget - SUMMARY_RESERVE_TOKENS;
+    while (earlier.length > 0 && tokens > target) {
+      const turn = earlier.shift();
+      if (!turn) break;
+      for (const msg of turn.source) {
+        const pinned = msg.pinned ? toPinnedMessage(msg) : null;
+        if (pinned) keptPinned.push(pinned);
+        else overflow.push(msg);
+        overflowThroughId = msg.id;
+      }
+      tokens = total() + sumTokens(keptPinned);
+    }
+  }
+
+  // 4. Elide outputs of the turn in progress
+  for (let i = 0; i < currentTurn.length && tokens > budget; i++) {
+    const m = currentTurn[i];
+    if (m.role !== "tool" || !m.content) continue;
+    currentTurn[i] = {
+      ...m,
+      content: elide(m.content, CURRENT_TOOL_OUTPUT_CHARS),
+    };
+    tokens = total() + sumTokens(keptPinned);
+  }
+
+  return {
+    messages: [
+      ...head,
+      ...keptPinned,
+      ...earlier.flatMap((t) => t.messages),
+      ...currentTurn,
+    ],
+    overflow,
+    overflowThroughId,
+    estimatedTokens: tokens,
+  };
+}
+
+/**
+ * Messages asking the model to summarize `messages`, folding in the
+ * summary they were already compacted into, if any.
+ */
+export function buildSummaryRequest(
+  previousSummary: string | undefined,
+  messages: ConversationMessage[]
+): ChatMessage[] {
+  const transcript = messages
+    .map((m) => {
+      if (m.role === "tool") {
+        return `[tool result] ${elide(m.content, OLD_TOOL_OUTPUT_CHARS)}`;
+      }
+      const calls = (m.toolCalls ?? [])
+        .map((tc) => `[called ${tc.function.name}(${tc.function.arguments})]`)
+        .join("\n");
+      return `[${m.role}] ${[m.content, calls].filter(Boolean).join("\n")}`;
+    })
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content:
+        "You compress chat transcripts between a user and an assistant working in an Obsidian vault. Write a concise summary that preserves the user's goals and preferences, decisions made, files read or changed (with paths), and open tasks. Use plain bullet points. Do not add commentary.",
+    },
+    {
+      role: "user",
+      content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ""}Transcript to add:\n${transcript}`,
+    },
+  ];
+}
@@ -2,18 +2,33 @@
 // Chat Engine - Agentic Loop with Streaming + Tool Calling
 // ============================================================
 
-import { App } from "obsidian";
+import { App, normalizePath } from "obsidian";
 import {
+  sendChatCompletion,
   sendChatCompletionStream,
-  ensureValidToken,
+  withCopilotToken,
 } from "../copilot/api";
-import { getVaultToolDefinitions, executeVaultTool } from "../mcp/tools";
+import type { RetryInfo } from "./retry";
+import {
+  buildSummaryRequest,
+  compactHistory,
+  getHistoryBudget,
+  isContextLengthError,
+} from "./context";
+import { diffCheckpointEntries } from "../mcp/checkpoints";
+import { VaultOverlay } from "../mcp/overlay";
+import type { PathPolicy } from "../mcp/pathPolicy";
+import type { RegisteredTool, ToolRegistry } from "../mcp/registry";
 import type {
   AuthState,
   ChatMessage,
+  ChatMode,
   ModelOption,
   ToolCallResult,
+  ToolApprovalPolicy,
   ConversationMessage,
+  ToolCall,
+  TurnCheckpoint,
 } from "../types";
 
 interface ChatEngineOptions {
@@ -23,21 +38,109 @@ interface ChatEngineOptions {
   systemPrompt: string;
   maxIterations: number;
   enableTools: boolean;
+  /** "ask" and "plan" only offer read-only tools */
+  mode: ChatMode;
+  /** How many read-only tool calls from one response may run at once */
+  toolConcurrency: number;
+  /**
+   * Run vault tools against an in-memory overlay instead of the vault.
+   * The last assistant message gets a changeset the user can apply.
+   */
+  dryRun?: boolean;
+  toolApprovalPolicies: Record<string, ToolApprovalPolicy>;
+  /** Built-in, plugin-provided and external MCP tools offered to the model */
+  registry: ToolRegistry;
+  pathPolicy: PathPolicy;
   onAuthUpdate: (auth: Partial<AuthState>) => void;
   onMessage: (messages: ConversationMessage[]) => void;
   onContentDelta: (delta: string) => void;
   onToolCall: (result: ToolCallResult) => void;
+  /** A history message gained a summary of itself and everything before it */
+  onContextSummary?: (messageId: string, summary: string) => void;
+  /** Resolves true if the user approves a pending tool call, false if rejected */
+  onApprovalRequest: (result: ToolCallResult) => Promise<boolean>;
   onError: (error: string) => void;
+  /** A request failed temporarily and is sent again after a delay */
+  onRetry?: (info: RetryInfo) => void;
   onDebug: (msg: string) => void;
   abortSignal?: AbortSignal;
 }
 
-function generateId(): string {
+export function generateId(): string {
   return (
     Date.now().toString(36) + Math.random().toString(36).substring(2, 9)
   );
 }
 
+/** Lowest share of the context limit to retry with after a too-long error */
+const MIN_BUDGET_SCALE = 0.2;
+
+/** Extra instructions for the modes that restrict the model */
+const MODE_INSTRUCTIONS: Record<ChatMode, string | null> = {
+  ask: `You are in Ask mode. Only read-only tools are available: answer from the vault, but do not create, edit, move or delete anything, and ignore the rules above that say you must. If the user asks for changes, describe what you would change and suggest switching to Agent mode.`,
+  plan: `You are in Plan mode. Only read-only tools are available. Investigate what you need with them, then reply with a numbered list of the changes you intend to make, one change per item, each naming the file and what will change (for example "1. Create Projects/Q3.md with a summary of ..."). Do not make the changes and ignore the rules above that say you must; the user reviews the list and runs it with one click.`,
+  agent: null,
+};
+
+/** A reply counts as a plan if it contains a numbered list */
+const PLAN_LIST_PATTERN = /^\s*1[.)]\s+\S/m;
+
+const CANCELLED_MESSAGE =
+  "Cancelled: the user stopped the request before this tool call ran.";
+
+function toolMessage(toolCall: ToolCall, content: string): ConversationMessage {
+  return {
+    id: generateId(),
+    role: "tool",
+    content,
+    timestamp: Date.now(),
+    toolCallId: toolCall.id,
+  };
+}
+
+/**
+ * The vault paths a call names, or null if it may touch anything, such as
+ * searches and tools without path arguments.
+ */
+function toolScope(
+  tool: RegisteredTool | undefined,
+  args: Record<string, unknown>
+): string[] | null {
+  const paths = (tool?.pathArgs ?? [])
+    .map((arg) => args[arg])
+    .filter((path): path is string => typeof path === "string")
+    .map((path) => normalizePath(path));
+  return paths.length > 0 && !paths.includes("/") ? paths : null;
+}
+
+/** Whether two scopes share a path, counting folders as their contents */
+function scopesOverlap(a: string[] | null, b: string[] | null): boolean {
+  if (!a || !b) return true;
+  return a.some((x) =>
+    b.some((y) => x === y || x.startsWith(`${y}/`) || y.startsWith(`${x}/`))
+  );
+}
+
+/** Wraps tasks so that at most `max` of them run at the same time */
+function createLimiter(
+  max: number
+): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async (task) => {
+    if (active < max) active++;
+    else await new Promise<void>((resolve) => waiting.push(resolve));
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next task, if any
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
 export async function runChatEngine(
   history: ConversationMessage[],
   userMessage: string,
@@ -50,11 +153,20 @@ export async function runChatEngine(
     systemPrompt,
     maxIterations,
     enableTools,
+    mode,
+    toolConcurrency,
+    dryRun = false,
+    toolApprovalPolicies,
+    registry,
+    pathPolicy,
     onAuthUpdate,
     onMessage,
     onContentDelta,
     onToolCall,
+    onContextSummary,
+    onApprovalRequest,
     onError,
+    onRetry,
     onDebug,
     abortSignal,
   } = options;
@@ -71,78 +183,201 @@ export async function runChatEngine(
 
   onMessage(newMessages);
 
-  // Build the full chat messages array for the API
-  const buildApiMessages = (): ChatMessage[] => {
-    const msgs: ChatMessage[] = [];
+  // System prompt and vault tool instructions, sent with every request
+  const systemMessages: ChatMessage[] = [];
 
-    // System prompt
-    if (systemPrompt) {
-      msgs.push({ role: "system", content: systemPrompt });
-    }
+  // System prompt
+  if (systemPrompt) {
+    systemMessages.push({ role: "system", content: systemPrompt });
+  }
 
-    // Default system instructions for vault tools
-    msgs.push({
-      role: "system",
-      content: `You are a helpful AI assistant embedded in Obsidian, a note-taking application. You have access to vault tools that let you read, write, edit, search, and manage files in the user's vault.
+  // Default system instructions for vault tools
+  systemMessages.push({
+    role: "system",
+    content: `You are a helpful AI assistant embedded in Obsidian, a note-taking application. You have access to vault tools that let you read, write, edit, search, and manage files in the user's vault.
 
 IMPORTANT RULES:
 1. When the user asks you to create files, examples, or templates - you MUST use the vault tools (vault_write_file, vault_create_folder, etc.) to actually create them. Do NOT just describe what to do - actually do it by calling the tools.
 2. Always read a file before editing it to understand its current content.
-3. Use vault_edit_file for targeted edits and vault_write_file for creating new files or completely replacing content.
+3. Use vault_edit_file for targeted edits, vault_apply_patch to make several edits (in one or more files) in a single call, and vault_write_file for creating new files or completely replacing content.
 4. When a task requires creating multiple files, create ALL of them using tool calls. Do not stop after describing what you plan to do.
 5. For complex tasks that require many files, create them one by one using multiple tool calls in sequence.
 6. After creating/modifying files, confirm what you did with a summary.
 7. The vault uses Markdown files (.md) with possible YAML frontmatter, wiki-links ([[link]]), and other Obsidian-specific syntax.
-8. Obsidian .canvas files use JSON format. When creating canvas files, use proper JSON structure.
-9. If you want to create an example or template, always use tool calls to create the actual files - never just show the content in chat.`,
+8. To create or change Obsidian .canvas files, use canvas_read, canvas_add_node, canvas_add_edge, canvas_update_node and canvas_remove rather than writing the JSON yourself; they keep the file valid and place new nodes without overlaps.
+9. If you want to create an example or template, always use tool calls to create the actual files - never just show the content in chat.
+10. To read or change note properties (tags, status, dates and other YAML frontmatter), use vault_get_frontmatter and vault_update_frontmatter instead of editing the text.
+11. To find what links to or from a note, use vault_get_backlinks, vault_get_outgoing_links and vault_get_neighbors rather than searching for its name.
+12. For questions about notes with certain tags, property values or dates, use vault_query_notes. Today's date is ${new Date().toLocaleDateString("en-CA")}.
+13. When the user describes a topic rather than exact words, use vault_semantic_search; use vault_search for exact names, quotes and tags.
+14. In long notes, call vault_get_outline first and work on single sections with vault_read_section, vault_replace_section and vault_insert_under_heading instead of reading or rewriting the whole file.
+15. If a tool fails with "Access denied by policy", the user has put that path off limits. Do not try to reach it another way; tell the user which path was blocked.`,
+  });
+
+  const modeInstructions = MODE_INSTRUCTIONS[mode];
+  if (modeInstructions) {
+    systemMessages.push({ role: "system", content: modeInstructions });
+  }
+
+  if (dryRun && mode === "agent") {
+    systemMessages.push({
+      role: "system",
+      content:
+        "This is a dry run: your changes are kept aside and shown to the user, who decides whether to apply them. Work exactly as you normally would; reads already reflect your earlier changes. Searches still show the vault as it was, and link tools do not see links you added or removed in notes changed during this run.",
     });
+  }
 
-    // History
-    for (const msg of history) {
-      if (msg.role === "user" || msg.role === "assistant") {
-        const apiMsg: ChatMessage = {
-          role: msg.role,
-          content: msg.content,
-        };
-        if (msg.toolCalls && msg.toolCalls.length > 0) {
-          apiMsg.tool_calls = msg.toolCalls;
-          apiMsg.content = msg.content || null;
-        }
-        msgs.push(apiMsg);
-      } else if (msg.role === "tool" && msg.toolCallId) {
-        msgs.push({
-          role: "tool",
-          content: msg.content,
-          tool_call_id: msg.toolCallId,
-        });
+  const readOnly = mode !== "agent";
+  const tools = enableTools
+    ? registry.getDefinitions((tool) => !readOnly || tool.risk === "read")
+    : undefined;
+
+  // History as sent to the model; gains summaries as it is compacted
+  let compactedHistory = history;
+  // Shrinks when the API rejects a prompt as too long despite the estimate
+  let budgetScale = 1;
+
+  const handleRetry = (info: RetryInfo) => {
+    onDebug(
+      `[Engine] ${info.reason}, retry ${info.attempt}/${info.maxRetries} in ${info.delayMs}ms`
+    );
+    onRetry?.(info);
+  };
+
+  // Build the request messages, compacting history to fit the context window
+  const buildApiMessages = async (): Promise<ChatMessage[]> => {
+    const budget = getHistoryBudget(model, systemMessages, tools, budgetScale);
+    let compacted = compactHistory(compactedHistory, newMessages, budget);
+
+    const throughId = compacted.overflowThroughId;
+    if (throughId) {
+      const previousSummary = [...compactedHistory]
+        .reverse()
+        .find((m) => m.contextSummary)?.contextSummary;
+      onDebug(
+        `[Engine] Summarizing ${compacted.overflow.length} earlier message(s)`
+      );
+      let summary = "";
+      try {
+        const response = await withCopilotToken(
+          authState,
+          onAuthUpdate,
+          (token) =>
+            sendChatCompletion(
+              token,
+              model,
+              buildSummaryRequest(previousSummary, compacted.overflow),
+              undefined,
+              abortSignal
+            ),
+          { onRetry: handleRetry, abortSignal }
+        );
+        summary = response.choices[0]?.message.content?.trim() ?? "";
+      } catch (err) {
+        // Stop ends the turn rather than falling back to a placeholder
+        if (abortSignal?.aborted) throw err;
+        onDebug(
+          `[Engine] Summary failed: ${err instanceof Error ? err.message : String(err)}`
+        );
       }
+      if (!summary) {
+        summary = `${previousSummary ? `${previousSummary}\n` : ""}(${compacted.overflow.length} earlier messages were omitted to fit the context window.)`;
+      }
+
+      compactedHistory = compactedHistory.map((m) =>
+        m.id === throughId ? { ...m, contextSummary: summary } : m
+      );
+      onContextSummary?.(throughId, summary);
+      compacted = compactHistory(compactedHistory, newMessages, budget);
     }
 
-    // New messages from this turn
-    for (const msg of newMessages) {
-      if (msg.role === "user" || msg.role === "assistant") {
-        const apiMsg: ChatMessage = {
-          role: msg.role,
-          content: msg.content,
-        };
-        if (msg.toolCalls && msg.toolCalls.length > 0) {
-          apiMsg.tool_calls = msg.toolCalls;
-          apiMsg.content = msg.content || null;
-        }
-        msgs.push(apiMsg);
-      } else if (msg.role === "tool" && msg.toolCallId) {
-        msgs.push({
-          role: "tool",
-          content: msg.content,
-          tool_call_id: msg.toolCallId,
-        });
-      }
+    onDebug(
+      `[Engine] Context: ~${compacted.estimatedTokens}/${budget} history tokens`
+    );
+    return [...systemMessages, ...compacted.messages];
+  };
+
+  // Every vault mutation in this turn, so the user can revert it later
+  const checkpoint: TurnCheckpoint = { entries: [] };
+  // Dry runs hand tools a view of the vault that keeps changes in memory
+  const overlay = dryRun ? new VaultOverlay(app) : null;
+  const toolApp = overlay?.app ?? app;
+
+  // Answer a tool call skipped because of Stop. Every tool call still needs
+  // a tool message, otherwise the next request would be rejected by the API.
+  const cancelToolCall = (toolCall: ToolCall): ConversationMessage => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(toolCall.function.arguments || "{}") as Record<
+        string,
+        unknown
+      >;
+    } catch {
+      // Display only; keep empty args
     }
+    onToolCall({
+      toolCallId: toolCall.id,
+      toolName: toolCall.function.name,
+      args,
+      status: "cancelled",
+      error: CANCELLED_MESSAGE,
+    });
+    return toolMessage(toolCall, CANCELLED_MESSAGE);
+  };
+
+  // Run a call that passed the checks and approval. Never throws: failures
+  // become the tool message so the model can react to them.
+  const runToolCall = async (
+    toolCall: ToolCall,
+    toolResult: ToolCallResult
+  ): Promise<ConversationMessage> => {
+    if (abortSignal?.aborted) return cancelToolCall(toolCall);
+
+    toolResult.status = "running";
+    onToolCall(toolResult);
 
-    return msgs;
+    try {
+      onDebug(
+        `[Engine] Executing: ${toolCall.function.name}(${JSON.stringify(toolResult.args).substring(0, 200)})`
+      );
+      const entriesBefore = checkpoint.entries.length;
+      const result = await registry.execute(
+        toolCall.function.name,
+        toolResult.args,
+        {
+          app: toolApp,
+          checkpoint: checkpoint.entries,
+          pathPolicy,
+          abortSignal,
+        }
+      );
+      // Read-only calls record nothing, and other calls never overlap, so
+      // the new entries all belong to this call
+      const diffs = await diffCheckpointEntries(
+        toolApp,
+        checkpoint.entries.slice(entriesBefore)
+      );
+
+      toolResult.status = "success";
+      toolResult.result = result;
+      if (diffs.length > 0) toolResult.diffs = diffs;
+      onToolCall(toolResult);
+      onDebug(
+        `[Engine] Tool success: ${result.substring(0, 100)}`
+      );
+      return toolMessage(toolCall, result);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : String(err);
+      toolResult.status = "error";
+      toolResult.error = errorMsg;
+      onToolCall(toolResult);
+      onDebug(`[Engine] Tool error: ${errorMsg}`);
+      return toolMessage(toolCall, `Error: ${errorMsg}`);
+    }
   };
 
-  const tools = enableTools ? getVaultToolDefinitions() : undefined;
+  const limit = createLimiter(Math.max(1, toolConcurrency));
 
   for (let iteration = 0; iteration < maxIterations; iteration++) {
     if (abortSignal?.aborted) {
@@ -154,38 +389,50 @@ IMPORTANT RULES:
       `[Engine] Iteration ${iteration + 1}/${maxIterations}, model=${model.value}`
     );
 
-    try {
-      // Ensure valid token
-      const token = await ensureValidToken(authState, onAuthUpdate);
+    // Content streamed so far in this iteration, kept if the user stops
+    let streamedContent = "";
 
+    try {
       // Send to API with streaming
-      const apiMessages = buildApiMessages();
+      const apiMessages = await buildApiMessages();
       onDebug(
         `[Engine] Sending ${apiMessages.length} messages, tools=${tools ? tools.length : 0}`
       );
 
-      const streamResult = await sendChatCompletionStream(
-        token,
-        model,
-        apiMessages,
+      const streamResult = await withCopilotToken(
+        authState,
+        onAuthUpdate,
+        (requestToken) =>
+          sendChatCompletionStream(
+            requestToken,
+            model,
+            apiMessages,
+            {
+              onContent: (delta) => {
+                streamedContent += delta;
+                onContentDelta(delta);
+              },
+              onToolCall: (tc) => {
+                onDebug(
+                  `[Engine] Tool call received: ${tc.function.name}`
+                );
+              },
+              onDone: (reason) => {
+                onDebug(`[Engine] Stream done, finish_reason=${reason}`);
+              },
+              onError: (err) => {
+                onDebug(`[Engine] Stream error: ${err}`);
+              },
+            },
+            tools,
+            abortSignal
+          ),
         {
-          onContent: (delta) => {
-            onContentDelta(delta);
-          },
-          onToolCall: (tc) => {
-            onDebug(
-              `[Engine] Tool call received: ${tc.function.name}`
-            );
-          },
-          onDone: (reason) => {
-            onDebug(`[Engine] Stream done, finish_reason=${reason}`);
-          },
-          onError: (err) => {
-            onDebug(`[Engine] Stream error: ${err}`);
-          },
-        },
-        tools,
-        abortSignal
+          onRetry: handleRetry,
+          // Content already shown would be streamed a second time
+          canRetry: () => !streamedContent,
+          abortSignal,
+        }
       );
 
       // Create assistant message from accumulated stream
@@ -217,8 +464,17 @@ IMPORTANT RULES:
       onDebug(
         `[Engine] Executing ${streamResult.toolCalls.length} tool call(s)`
       );
+      // Read-only calls start right away and run side by side, up to the
+      // concurrency limit. Other calls run one at a time in call order, after
+      // the earlier reads of the paths they touch have finished.
+      const toolMessages = new Map<string, ConversationMessage>();
+      const pendingReads: { scope: string[] | null; done: Promise<void> }[] =
+        [];
       for (const toolCall of streamResult.toolCalls) {
-        if (abortSignal?.aborted) break;
+        if (abortSignal?.aborted) {
+          toolMessages.set(toolCall.id, cancelToolCall(toolCall));
+          continue;
+        }
 
         let parsedArgs: Record<string, unknown> = {};
         try {
@@ -227,14 +483,13 @@ IMPORTANT RULES:
           onDebug(
             `[Engine] Failed to parse tool args: ${toolCall.function.arguments}`
           );
-          const toolConvMsg: ConversationMessage = {
-            id: generateId(),
-            role: "tool",
-            content: `Error: Failed to parse arguments: ${toolCall.function.arguments}`,
-            timestamp: Date.now(),
-            toolCallId: toolCall.id,
-          };
-          newMessages.push(toolConvMsg);
+          toolMessages.set(
+            toolCall.id,
+            toolMessage(
+              toolCall,
+              `Error: Failed to parse arguments: ${toolCall.function.arguments}`
+            )
+          );
 
           onToolCall({
             toolCallId: toolCall.id,
@@ -250,53 +505,107 @@ IMPORTANT RULES:
           toolCallId: toolCall.id,
           toolName: toolCall.function.name,
           args: parsedArgs,
-          status: "running",
+          status: "pending",
         };
-        onToolCall(toolResult);
 
-        try {
-          onDebug(
-            `[Engine] Executing: ${toolCall.function.name}(${JSON.stringify(parsedArgs).substring(0, 200)})`
-          );
-          const result = await executeVaultTool(
+        const policy = registry.resolvePolicy(
+          toolCall.function.name,
+          toolApprovalPolicies
+        );
+        const tool = registry.get(toolCall.function.name);
+        // Calls the path policy blocks fail without asking first
+        const denied = registry.checkPaths(
+          toolCall.function.name,
+          parsedArgs,
+          pathPolicy
+        );
+        let rejection: string | null = null;
+        if (policy === "deny") {
+          rejection = `The tool ${toolCall.function.name} is disabled by the user's settings. Do not call it again; tell the user what you intended to do instead.`;
+        } else if (readOnly && tool?.risk !== "read") {
+          rejection = `The tool ${toolCall.function.name} is not available in ${mode === "ask" ? "Ask" : "Plan"} mode, which cannot change the vault. Do not call it again; describe the change instead.`;
+        } else if (
+          dryRun &&
+          tool &&
+          tool.source !== "builtin" &&
+          tool.risk !== "read"
+        ) {
+          // Only built-in tools write through the overlay
+          rejection = `The tool ${toolCall.function.name} cannot be simulated in a dry run and was not executed. Continue without it and mention what it would have done.`;
+        } else if (
+          denied === null &&
+          // Nothing is changed in a dry run, so there is nothing to approve
+          !dryRun &&
+          registry.needsApproval(
             app,
+            policy,
             toolCall.function.name,
             parsedArgs
-          );
-
-          toolResult.status = "success";
-          toolResult.result = result;
+          )
+        ) {
           onToolCall(toolResult);
           onDebug(
-            `[Engine] Tool success: ${result.substring(0, 100)}`
+            `[Engine] Awaiting approval: ${toolCall.function.name}`
           );
+          const approved = await onApprovalRequest(toolResult);
+          if (abortSignal?.aborted) {
+            toolMessages.set(toolCall.id, cancelToolCall(toolCall));
+            continue;
+          }
+          if (!approved) {
+            rejection = `The user rejected this ${toolCall.function.name} call. It was not executed. Do not retry it without asking the user first.`;
+          }
+        }
 
-          // Add tool result message
-          const toolConvMsg: ConversationMessage = {
-            id: generateId(),
-            role: "tool",
-            content: result,
-            timestamp: Date.now(),
-            toolCallId: toolCall.id,
-          };
-          newMessages.push(toolConvMsg);
-        } catch (err) {
-          const errorMsg =
-            err instanceof Error ? err.message : String(err);
+        if (rejection !== null) {
+          toolResult.status = "rejected";
+          toolResult.error = rejection;
+          onToolCall(toolResult);
+          onDebug(`[Engine] Tool rejected: ${toolCall.function.name}`);
+
+          toolMessages.set(toolCall.id, toolMessage(toolCall, rejection));
+          continue;
+        }
+
+        if (denied !== null) {
           toolResult.status = "error";
-          toolResult.error = errorMsg;
+          toolResult.error = denied.replace(/^Error: /, "");
           onToolCall(toolResult);
-          onDebug(`[Engine] Tool error: ${errorMsg}`);
+          onDebug(`[Engine] Tool denied by path policy: ${toolCall.function.name}`);
 
-          const toolConvMsg: ConversationMessage = {
-            id: generateId(),
-            role: "tool",
-            content: `Error: ${errorMsg}`,
-            timestamp: Date.now(),
-            toolCallId: toolCall.id,
-          };
-          newMessages.push(toolConvMsg);
+          toolMessages.set(toolCall.id, toolMessage(toolCall, denied));
+          continue;
+        }
+
+        const scope = toolScope(tool, parsedArgs);
+        if (tool?.risk === "read") {
+          pendingReads.push({
+            scope,
+            done: limit(() => runToolCall(toolCall, toolResult)).then(
+              (message) => {
+                toolMessages.set(toolCall.id, message);
+              }
+            ),
+          });
+          continue;
         }
+
+        await Promise.all(
+          pendingReads
+            .filter((read) => scopesOverlap(read.scope, scope))
+            .map((read) => read.done)
+        );
+        toolMessages.set(
+          toolCall.id,
+          await runToolCall(toolCall, toolResult)
+        );
+      }
+      await Promise.all(pendingReads.map((read) => read.done));
+
+      // Answer the calls in the order the model made them
+      for (const toolCall of streamResult.toolCalls) {
+        const message = toolMessages.get(toolCall.id);
+        if (message) newMessages.push(message);
       }
 
       onMessage([...newMessages]);
@@ -326,9 +635,30 @@ IMPORTANT RULES:
         errorMsg.includes("AbortError")
       ) {
         onDebug(`[Engine] Request aborted`);
+        // Keep whatever the model had streamed before Stop, without the
+        // incomplete tool calls that cannot be answered.
+        if (streamedContent) {
+          newMessages.push({
+            id: generateId(),
+            role: "assistant",
+            content: streamedContent,
+            timestamp: Date.now(),
+          });
+          onMessage([...newMessages]);
+        }
         break;
       }
 
+      // The estimate was too optimistic: retry with a smaller budget
+      if (isContextLengthError(errorMsg) && budgetScale > MIN_BUDGET_SCALE) {
+        budgetScale *= 0.6;
+        onDebug(
+          `[Engine] Prompt too long, retrying at ${Math.round(budgetScale * 100)}% of the context limit`
+        );
+        iteration--;
+        continue;
+      }
+
       onError(errorMsg);
       onDebug(`[Engine] Error: ${errorMsg}`);
 
@@ -343,6 +673,29 @@ IMPORTANT RULES:
     }
   }
 
+  const lastAssistant = [...newMessages]
+    .reverse()
+    .find((m) => m.role === "assistant");
+  if (overlay) {
+    const changes = await overlay.getChanges();
+    if (lastAssistant && changes.length > 0) {
+      lastAssistant.changeset = { changes };
+      onMessage([...newMessages]);
+    }
+  } else if (lastAssistant && checkpoint.entries.length > 0) {
+    lastAssistant.checkpoint = checkpoint;
+    onMessage([...newMessages]);
+  }
+  if (
+    mode === "plan" &&
+    lastAssistant &&
+    !abortSignal?.aborted &&
+    PLAN_LIST_PATTERN.test(lastAssistant.content)
+  ) {
+    lastAssistant.proposedPlan = true;
+    onMessage([...newMessages]);
+  }
+
   onDebug(
     `[Engine] Finished. Total new messages: ${newMessages.length}`
   );
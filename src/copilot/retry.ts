@@ -0,0 +1,184 @@
+// ============================================================
+// Retry Policy - Backoff for rate limits and transient failures
+// ============================================================
+
+import type { RequestUrlResponse } from "obsidian";
+
+/** Retries after the first attempt */
+export const MAX_RETRIES = 4;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+/** A longer Retry-After fails right away instead of leaving the chat hanging */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Node error codes for connections that failed or dropped */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "EPIPE",
+]);
+
+const NETWORK_ERROR_PATTERN = /net::ERR_|socket hang up|network|timed? ?out/i;
+
+/** A response with a non-2xx status */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    body: string,
+    /** From the Retry-After header, if the server sent one */
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(`Request failed, status ${status}${body ? `: ${body}` : ""}`);
+    this.name = "HttpError";
+  }
+}
+
+/** For a requestUrl response made with `throw: false`: null if it succeeded */
+export function responseError(response: RequestUrlResponse): HttpError | null {
+  if (response.status >= 200 && response.status < 300) return null;
+  const retryAfter = Object.entries(response.headers).find(
+    ([name]) => name.toLowerCase() === "retry-after"
+  )?.[1];
+  return new HttpError(response.status, response.text, parseRetryAfter(retryAfter));
+}
+
+export interface RetryInfo {
+  /** 1 for the first retry */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  /** Short description of what failed, such as "Rate limited" */
+  reason: string;
+}
+
+/**
+ * Parse a Retry-After header: a number of seconds or an HTTP date.
+ * Returns milliseconds to wait, or null if missing or malformed.
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined | null
+): number | null {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return null;
+  const seconds = Number(header.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && /abort/i.test(err.message);
+}
+
+/**
+ * The HTTP status of a failed request: from an HttpError, or from a
+ * requestUrl error, which carries the status but no headers.
+ */
+export function errorStatus(err: unknown): number | null {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : null;
+}
+
+/** Rate limits, server errors and dropped connections are worth retrying */
+export function isRetryableError(err: unknown): boolean {
+  if (!(err instanceof Error) || isAbortError(err)) return false;
+  const status = errorStatus(err);
+  if (status !== null) {
+    return status === 429 || status === 408 || status >= 500;
+  }
+  const code = (err as { code?: unknown }).code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+  return NETWORK_ERROR_PATTERN.test(err.message);
+}
+
+function describeFailure(err: unknown): string {
+  const status = errorStatus(err);
+  if (status === 429) return "Rate limited";
+  if (status !== null) return `Server error ${status}`;
+  return "Connection failed";
+}
+
+/**
+ * How long to wait before retry number `attempt` (1-based): the server's
+ * Retry-After if given, otherwise exponential backoff with jitter.
+ * Returns null if the server asks for a longer wait than we accept.
+ */
+export function retryDelay(attempt: number, err: unknown): number | null {
+  if (err instanceof HttpError && err.retryAfterMs !== null) {
+    return err.retryAfterMs <= MAX_RETRY_AFTER_MS ? err.retryAfterMs : null;
+  }
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  // Spread retries out so parallel requests do not hit the limit together
+  return Math.round(backoff * (0.5 + Math.random() / 2));
+}
+
+/** Resolves after `ms`, or rejects as soon as the request is stopped */
+export function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new Error("Request aborted"));
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new Error("Request aborted"));
+    };
+    const timer = window.setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  /** Called before waiting for each retry, e.g. to show a status */
+  onRetry?: (info: RetryInfo) => void;
+  /**
+   * Return false once a retry would repeat output that was already
+   * delivered, such as a stream that failed halfway.
+   */
+  canRetry?: () => boolean;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Run `request`, retrying rate limits (429), server errors (5xx) and
+ * network failures up to MAX_RETRIES times. Other errors are thrown.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { onRetry, canRetry, abortSignal } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (
+        attempt > MAX_RETRIES ||
+        abortSignal?.aborted ||
+        !isRetryableError(err) ||
+        (canRetry && !canRetry())
+      ) {
+        throw err;
+      }
+      const delayMs = retryDelay(attempt, err);
+      if (delayMs === null) throw err;
+      onRetry?.({
+        attempt,
+        maxRetries: MAX_RETRIES,
+        delayMs,
+        reason: describeFailure(err),
+      });
+      await sleep(delayMs, abortSignal);
+    }
+  }
+}
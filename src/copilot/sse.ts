@@ -0,0 +1,145 @@
+// ============================================================
+// SSE Parser - Incremental chat completion stream decoding
+// ============================================================
+
+import type { ToolCall } from "../types";
+
+export interface StreamCallbacks {
+  onContent: (delta: string) => void;
+  onToolCall: (toolCall: ToolCall) => void;
+  onDone: (finishReason: string) => void;
+  onError: (error: string) => void;
+}
+
+export interface StreamResult {
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: string;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string;
+  }>;
+}
+
+/**
+ * Parses `data:` lines of an OpenAI-style SSE stream as text arrives.
+ * Chunks may split lines anywhere; incomplete lines are buffered until
+ * the next push. Content deltas are emitted immediately, tool calls are
+ * accumulated and emitted once the stream is finished.
+ */
+export class SseChatParser {
+  private callbacks: StreamCallbacks;
+  private buffer = "";
+  private content = "";
+  private finishReason = "stop";
+  private toolCallAccumulator = new Map<
+    number,
+    { id: string; name: string; arguments: string }
+  >();
+
+  constructor(callbacks: StreamCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  /** Feed the next chunk of response text. */
+  push(text: string): void {
+    this.buffer += text;
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  /** Flush any buffered line, emit tool calls and return the result. */
+  finish(): StreamResult {
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = "";
+    }
+
+    const toolCalls: ToolCall[] = [];
+    const sortedEntries = [...this.toolCallAccumulator.entries()].sort(
+      ([a], [b]) => a - b
+    );
+    for (const [, acc] of sortedEntries) {
+      const toolCall: ToolCall = {
+        id: acc.id,
+        type: "function",
+        function: {
+          name: acc.name,
+          arguments: acc.arguments,
+        },
+      };
+      toolCalls.push(toolCall);
+      this.callbacks.onToolCall(toolCall);
+    }
+
+    this.callbacks.onDone(this.finishReason);
+    return {
+      content: this.content,
+      toolCalls,
+      finishReason: this.finishReason,
+    };
+  }
+
+  private processLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed || !trimmed.startsWith("data: ")) return;
+
+    const data = trimmed.slice(6);
+    if (data === "[DONE]") return;
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data) as ChatCompletionChunk;
+    } catch {
+      // Skip malformed JSON chunks
+      return;
+    }
+
+    const delta = chunk.choices?.[0]?.delta;
+    const chunkFinishReason = chunk.choices?.[0]?.finish_reason;
+
+    if (chunkFinishReason) {
+      this.finishReason = chunkFinishReason;
+    }
+
+    if (!delta) return;
+
+    // Content delta
+    if (delta.content) {
+      this.content += delta.content;
+      this.callbacks.onContent(delta.content);
+    }
+
+    // Tool call deltas
+    if (delta.tool_calls) {
+      for (const tc of delta.tool_calls) {
+        const idx = tc.index ?? 0;
+
+        let acc = this.toolCallAccumulator.get(idx);
+        if (!acc) {
+          acc = { id: "", name: "", arguments: "" };
+          this.toolCallAccumulator.set(idx, acc);
+        }
+
+        if (tc.id) acc.id = tc.id;
+        if (tc.function?.name) acc.name = tc.function.name;
+        if (tc.function?.arguments) {
+          acc.arguments += tc.function.arguments;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+// ============================================================
+// HTTP Transport - Incremental response streaming
+// ============================================================
+
+import { Platform, requestUrl } from "obsidian";
+import type { IncomingMessage } from "http";
+import { HttpError, parseRetryAfter, responseError } from "./retry";
+
+export interface StreamingRequest {
+  url: string;
+  method: "GET" | "POST";
+  headers: Record<string, string>;
+  body?: string;
+}
+
+function raceAbort<T>(
+  promise: Promise<T>,
+  abortSignal?: AbortSignal
+): Promise<T> {
+  if (!abortSignal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Request aborted"));
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        abortSignal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        abortSignal.removeEventListener("abort", onAbort);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    );
+  });
+}
+
+/**
+ * Send a request and deliver the response body as it arrives.
+ *
+ * On desktop this uses Node's `https` module, so `onChunk` fires for every
+ * chunk received from the network. Mobile has no Node runtime, so it falls
+ * back to `requestUrl`, which buffers the whole body and delivers it in a
+ * single chunk.
+ *
+ * Non-2xx responses are thrown as HttpError.
+ */
+export async function streamRequest(
+  request: StreamingRequest,
+  onChunk: (text: string) => void,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  if (abortSignal?.aborted) {
+    throw new Error("Request aborted");
+  }
+
+  if (!Platform.isDesktopApp) {
+    // requestUrl cannot be cancelled; on abort stop waiting and drop the
+    // response when it eventually arrives.
+    const response = await raceAbort(
+      requestUrl({ ...request, throw: false }),
+      abortSignal
+    );
+    const error = responseError(response);
+    if (error) throw error;
+    onChunk(response.text);
+    return;
+  }
+
+  // Loaded lazily: the module does not exist on mobile
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const https = require("https") as typeof import("https");
+
+  await new Promise<void>((resolve, reject) => {
+    const req = https.request(
+      request.url,
+      { method: request.method, headers: request.headers },
+      (res: IncomingMessage) => {
+        res.setEncoding("utf8");
+        const status = res.statusCode ?? 0;
+
+        if (status < 200 || status >= 300) {
+          let errorBody = "";
+          res.on("data", (chunk: string) => {
+            errorBody += chunk;
+          });
+          res.on("error", reject);
+          res.on("end", () => {
+            reject(
+              new HttpError(
+                status,
+                errorBody,
+                parseRetryAfter(res.headers["retry-after"])
+              )
+            );
+          });
+          return;
+        }
+
+        res.on("data", (chunk: string) => {
+          try {
+            onChunk(chunk);
+          } catch (err) {
+            req.destroy(err instanceof Error ? err : new Error(String(err)));
+          }
+        });
+        res.on("end", () => resolve());
+        res.on("error", reject);
+      }
+    );
+
+    const onAbort = () => req.destroy(new Error("Request aborted"));
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+    req.on("close", () => abortSignal?.removeEventListener("abort", onAbort));
+    req.on("error", reject);
+
+    if (request.body !== undefined) {
+      req.write(request.body);
+    }
+    req.end();
+  });
+}
@@ -2,18 +2,68 @@
 // Main Plugin Entry Point
 // ============================================================
 
-import { Plugin } from "obsidian";
+import { Notice, Plugin, normalizePath } from "obsidian";
 import { ChatView, CHAT_VIEW_TYPE } from "./ui/ChatView";
+import { ConversationStore } from "./storage/conversations";
+import { McpServer, generateMcpToken } from "./mcp/server";
+import { ExternalToolManager } from "./mcp/externalTools";
+import { PathPolicy } from "./mcp/pathPolicy";
+import { ToolRegistry } from "./mcp/registry";
+import type { RegisteredTool } from "./mcp/registry";
+import { registerVaultTools } from "./mcp/tools";
+import { SearchIndex } from "./search/fullText";
+import { SemanticIndex } from "./search/semantic";
+import { createEmbeddingProvider } from "./search/embeddings";
 import { CopilotMCPSettingTab } from "./ui/SettingsTab";
+import { RevertTurnsModal } from "./ui/RevertTurnsModal";
 import type { PluginSettings } from "./types";
 import { DEFAULT_SETTINGS } from "./types";
 
 export default class CopilotMCPPlugin extends Plugin {
   settings!: PluginSettings;
+  conversations!: ConversationStore;
+  mcpServer: McpServer | null = null;
+  /** Every tool the model can call: built-in, plugin-provided and external */
+  tools = new ToolRegistry();
+  /** Vault paths tools may read and change, from the settings */
+  pathPolicy = new PathPolicy(this.app, () => this.settings.pathPolicy);
+  searchIndex!: SearchIndex;
+  semanticIndex!: SemanticIndex;
+  externalTools!: ExternalToolManager;
+  /** Called whenever an external server's connection status changes */
+  onExternalToolsChange: (() => void) | null = null;
 
   async onload() {
     await this.loadSettings();
 
+    const pluginDir =
+      this.manifest.dir ??
+      normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+    this.conversations = new ConversationStore(
+      this.app.vault.adapter,
+      `${pluginDir}/conversations`
+    );
+    this.searchIndex = new SearchIndex(this.app);
+    this.semanticIndex = new SemanticIndex(
+      this.app,
+      `${pluginDir}/semantic-index.json`,
+      () =>
+        createEmbeddingProvider(this.settings, (auth) => {
+          Object.assign(this.settings.authState, auth);
+          void this.saveSettings();
+        }),
+      // Notes the tools may not read are never sent for embedding
+      (path) => this.pathPolicy.canRead(path)
+    );
+    registerVaultTools(this.tools, this.searchIndex, this.semanticIndex);
+    this.externalTools = new ExternalToolManager(
+      this.tools,
+      (msg) => {
+        if (this.settings.debug) console.debug(`[CopilotMCP] ${msg}`);
+      },
+      () => this.onExternalToolsChange?.()
+    );
+
     // Register the chat view
     this.registerView(CHAT_VIEW_TYPE, (leaf) => new ChatView(leaf, this));
 
@@ -40,12 +90,89 @@ export default class CopilotMCPPlugin extends Plugin {
       },
     });
 
+    // Register command to undo the vault changes of recent agent turns
+    this.addCommand({
+      id: "revert-copilot-mcp-turns",
+      name: "Revert last agent turns",
+      callback: () => {
+        new RevertTurnsModal(this.app, (count) => {
+          void this.activateView().then((view) => {
+            view?.revertTurnsCallback?.(count);
+          });
+        }).open();
+      },
+    });
+
     // Register settings tab
     this.addSettingTab(new CopilotMCPSettingTab(this.app, this));
+
+    // Keep the search indexes current; changes are indexed on the next search
+    this.registerEvent(
+      this.app.vault.on("create", (file) =>
+        this.searchIndex.onCreateOrModify(file)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on("modify", (file) =>
+        this.searchIndex.onCreateOrModify(file)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.searchIndex.onDelete(file);
+        this.semanticIndex.onDelete(file);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.searchIndex.onRename(file, oldPath);
+        this.semanticIndex.onRename(file, oldPath);
+      })
+    );
+
+    this.app.workspace.onLayoutReady(() => {
+      void this.searchIndex.build();
+      void this.restartMcpServer();
+      void this.externalTools.connectAll(this.settings.externalMcpServers);
+    });
   }
 
   onunload() {
-    // Plugin cleanup handled by Obsidian
+    void this.mcpServer?.stop();
+    this.mcpServer = null;
+    void this.externalTools.closeAll();
+  }
+
+  /** Stop the MCP server and start it again if enabled in settings. */
+  async restartMcpServer() {
+    await this.mcpServer?.stop();
+    this.mcpServer = null;
+    if (!this.settings.mcpServerEnabled) return;
+
+    if (!this.settings.mcpServerToken) {
+      this.settings.mcpServerToken = generateMcpToken();
+      await this.saveSettings();
+    }
+
+    const server = new McpServer({
+      app: this.app,
+      port: this.settings.mcpServerPort,
+      token: this.settings.mcpServerToken,
+      registry: this.tools,
+      pathPolicy: this.pathPolicy,
+      getApprovalPolicies: () => this.settings.toolApprovalPolicies,
+      onDebug: (msg) => {
+        if (this.settings.debug) console.debug(`[CopilotMCP] ${msg}`);
+      },
+    });
+    try {
+      await server.start();
+      this.mcpServer = server;
+    } catch (err) {
+      new Notice(
+        `Could not start MCP server on port ${this.settings.mcpServerPort}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
   }
 
   async loadSettings() {
@@ -54,13 +181,42 @@ export default class CopilotMCPPlugin extends Plugin {
       DEFAULT_SETTINGS,
       (await this.loadData()) as Partial<PluginSettings> | undefined
     );
+    this.settings.toolApprovalPolicies = {
+      ...this.settings.toolApprovalPolicies,
+    };
+    this.settings.externalMcpServers = [
+      ...(this.settings.externalMcpServers ?? []),
+    ];
+    this.settings.pathPolicy = {
+      ...DEFAULT_SETTINGS.pathPolicy,
+      ...this.settings.pathPolicy,
+    };
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
   }
 
-  async activateView(newChat = false) {
+  // --- Public API for other plugins ---
+
+  /**
+   * Offer a tool to the chat model, e.g. from another plugin's onload:
+   *
+   *   const copilot = app.plugins.getPlugin("github-copilot-mcp");
+   *   const unregister = copilot?.registerTool({ definition, handler,
+   *     risk: "read", category: "My plugin", source: "plugin:my-plugin" });
+   *
+   * Returns a function that removes the tool again; call it on unload.
+   */
+  registerTool(tool: RegisteredTool): () => void {
+    return this.tools.register({ ...tool, source: tool.source ?? "plugin" });
+  }
+
+  unregisterTool(name: string): boolean {
+    return this.tools.unregister(name);
+  }
+
+  async activateView(newChat = false): Promise<ChatView | null> {
     const { workspace } = this.app;
 
     let leaf = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
@@ -76,13 +232,13 @@ export default class CopilotMCPPlugin extends Plugin {
       }
     }
 
-    if (leaf) {
-      await workspace.revealLeaf(leaf);
+    if (!leaf) return null;
 
-      if (newChat) {
-        const view = leaf.view as ChatView;
-        view.newChatCallback?.();
-      }
+    await workspace.revealLeaf(leaf);
+    const view = leaf.view as ChatView;
+    if (newChat) {
+      view.newChatCallback?.();
     }
+    return view;
   }
 }
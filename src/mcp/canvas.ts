@@ -0,0 +1,821 @@
+// ============================================================
+// Canvas Tools - Structured editing of JSON Canvas files
+// ============================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import type {
+  AllCanvasNodeData,
+  CanvasData,
+  CanvasEdgeData,
+  NodeSide,
+} from "obsidian/canvas";
+import type { CheckpointEntry } from "../types";
+import { ensureParentFolders } from "./checkpoints";
+import type { RegisteredTool } from "./registry";
+
+type NodeType = AllCanvasNodeData["type"];
+
+const NODE_TYPES: NodeType[] = ["text", "file", "link", "group"];
+const SIDES: NodeSide[] = ["top", "right", "bottom", "left"];
+const EDGE_ENDS = ["none", "arrow"];
+const BACKGROUND_STYLES = ["cover", "ratio", "repeat"];
+
+/** Sizes Obsidian uses for new nodes */
+const DEFAULT_SIZES: Record<NodeType, { width: number; height: number }> = {
+  text: { width: 250, height: 60 },
+  file: { width: 400, height: 400 },
+  link: { width: 400, height: 400 },
+  group: { width: 400, height: 400 },
+};
+
+/** Space kept between placed nodes and around group contents */
+const GAP = 40;
+const GROUP_PADDING = 40;
+/** Longest text shown per node by canvas_read */
+const MAX_PREVIEW_CHARS = 200;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const pathProperty = {
+  type: "string",
+  description: 'Canvas file path relative to vault root, e.g. "Maps/Project.canvas".',
+};
+
+const colorProperty = {
+  type: "string",
+  description:
+    'Preset color "1" (red) to "6" (purple), or a hex color like "#4a90d9".',
+};
+
+const nodeContentProperties = {
+  text: {
+    type: "string",
+    description: "Markdown text (text nodes).",
+  },
+  file: {
+    type: "string",
+    description: "Vault path of the embedded file (file nodes).",
+  },
+  subpath: {
+    type: "string",
+    description: 'Heading or block in the file, starting with "#" (file nodes).',
+  },
+  url: {
+    type: "string",
+    description: "Web address (link nodes).",
+  },
+  label: {
+    type: "string",
+    description: "Title shown above the group (group nodes).",
+  },
+  color: colorProperty,
+};
+
+export function getCanvasTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "canvas_read",
+          description:
+            "Read a .canvas file as a list of nodes (id, type, position, size, content, containing group) and edges, and report anything that breaks the JSON Canvas format. Use the ids with the other canvas_* tools.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              raw: {
+                type: "boolean",
+                description: "Return the JSON instead of a summary. Default false.",
+              },
+            },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app }) => readCanvas(app, args),
+      risk: "read",
+      category: "Canvas",
+      summary: "Read canvas nodes and edges",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "canvas_add_node",
+          description:
+            "Add a node to a canvas, creating the canvas if it does not exist. The id is generated and returned. Without x/y the node is placed next to `near`, inside `group`, or below the existing nodes, without overlapping anything. A group can be sized around existing nodes with `contains`.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              type: { type: "string", enum: NODE_TYPES },
+              ...nodeContentProperties,
+              x: { type: "number", description: "Left edge. Default: placed automatically." },
+              y: { type: "number", description: "Top edge. Default: placed automatically." },
+              width: { type: "number", description: "Default depends on the node type." },
+              height: { type: "number", description: "Default depends on the node type." },
+              near: {
+                type: "string",
+                description: "Id of a node to place the new node next to.",
+              },
+              group: {
+                type: "string",
+                description: "Id of a group to place the new node inside.",
+              },
+              contains: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Group nodes only: ids of nodes the group should surround.",
+              },
+            },
+            required: ["path", "type"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) => addNode(app, args, checkpoint),
+      risk: "write",
+      category: "Canvas",
+      summary: "Add a text, file, link or group node",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "canvas_add_edge",
+          description:
+            "Connect two canvas nodes with an edge (an arrow by default). Sides are chosen from the node positions unless given.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              fromNode: { type: "string", description: "Id of the start node." },
+              toNode: { type: "string", description: "Id of the end node." },
+              fromSide: { type: "string", enum: SIDES },
+              toSide: { type: "string", enum: SIDES },
+              fromEnd: {
+                type: "string",
+                enum: EDGE_ENDS,
+                description: 'Default "none".',
+              },
+              toEnd: {
+                type: "string",
+                enum: EDGE_ENDS,
+                description: 'Default "arrow".',
+              },
+              label: { type: "string", description: "Text shown on the edge." },
+              color: colorProperty,
+            },
+            required: ["path", "fromNode", "toNode"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) => addEdge(app, args, checkpoint),
+      risk: "write",
+      category: "Canvas",
+      summary: "Connect two nodes",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "canvas_update_node",
+          description:
+            "Change a canvas node's content, color, position or size. Only the given fields change. Moving a group moves the nodes inside it.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              id: { type: "string", description: "Id of the node." },
+              ...nodeContentProperties,
+              x: { type: "number" },
+              y: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["path", "id"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) => updateNode(app, args, checkpoint),
+      risk: "write",
+      category: "Canvas",
+      summary: "Edit a node's content, color, position or size",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "canvas_remove",
+          description:
+            "Remove nodes and/or edges from a canvas by id. Edges attached to removed nodes are removed too; nodes inside a removed group are kept.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              ids: {
+                type: "array",
+                items: { type: "string" },
+                description: "Ids of nodes or edges to remove.",
+              },
+            },
+            required: ["path", "ids"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) => removeItems(app, args, checkpoint),
+      risk: "write",
+      category: "Canvas",
+      summary: "Remove nodes or edges",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+  ];
+}
+
+// --- Validation ---
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function validColor(value: unknown): boolean {
+  return (
+    typeof value === "string" && /^([1-6]|#[0-9a-fA-F]{3}|#[0-9a-fA-F]{6})$/.test(value)
+  );
+}
+
+/** Problems that make `data` invalid JSON Canvas; empty if valid */
+export function validateCanvas(data: unknown): string[] {
+  const problems: string[] = [];
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return ["the file is not a JSON object"];
+  }
+  const canvas = data as Record<string, unknown>;
+  const nodes: unknown[] = Array.isArray(canvas.nodes) ? canvas.nodes : [];
+  const edges: unknown[] = Array.isArray(canvas.edges) ? canvas.edges : [];
+  if (canvas.nodes !== undefined && !Array.isArray(canvas.nodes)) {
+    problems.push("nodes is not an array");
+  }
+  if (canvas.edges !== undefined && !Array.isArray(canvas.edges)) {
+    problems.push("edges is not an array");
+  }
+
+  const ids = new Set<string>();
+  const nodeIds = new Set<string>();
+  const checkId = (id: unknown, what: string) => {
+    if (typeof id !== "string" || !id) {
+      problems.push(`${what} has no id`);
+      return;
+    }
+    if (ids.has(id)) problems.push(`id "${id}" is used more than once`);
+    ids.add(id);
+  };
+
+  nodes.forEach((raw, i) => {
+    const node = raw as Record<string, unknown>;
+    const what = `node ${typeof node?.id === "string" ? `"${node.id}"` : i + 1}`;
+    if (typeof node !== "object" || node === null) {
+      problems.push(`${what} is not an object`);
+      return;
+    }
+    checkId(node.id, what);
+    if (typeof node.id === "string") nodeIds.add(node.id);
+    if (!NODE_TYPES.includes(node.type as NodeType)) {
+      problems.push(`${what} has unknown type ${JSON.stringify(node.type)}`);
+    }
+    for (const key of ["x", "y", "width", "height"]) {
+      if (!isFiniteNumber(node[key])) problems.push(`${what} has no numeric ${key}`);
+    }
+    if (isFiniteNumber(node.width) && node.width <= 0) problems.push(`${what} has width <= 0`);
+    if (isFiniteNumber(node.height) && node.height <= 0) problems.push(`${what} has height <= 0`);
+    if (node.color !== undefined && !validColor(node.color)) {
+      problems.push(`${what} has invalid color ${JSON.stringify(node.color)}`);
+    }
+    if (node.type === "text" && typeof node.text !== "string") {
+      problems.push(`${what} (text) has no text`);
+    }
+    if (node.type === "file") {
+      if (typeof node.file !== "string" || !node.file) problems.push(`${what} (file) has no file`);
+      if (node.subpath !== undefined && !(typeof node.subpath === "string" && node.subpath.startsWith("#"))) {
+        problems.push(`${what} subpath must start with "#"`);
+      }
+    }
+    if (node.type === "link" && typeof node.url !== "string") {
+      problems.push(`${what} (link) has no url`);
+    }
+    if (
+      node.type === "group" &&
+      node.backgroundStyle !== undefined &&
+      !BACKGROUND_STYLES.includes(node.backgroundStyle as string)
+    ) {
+      problems.push(`${what} has invalid backgroundStyle`);
+    }
+  });
+
+  edges.forEach((raw, i) => {
+    const edge = raw as Record<string, unknown>;
+    const what = `edge ${typeof edge?.id === "string" ? `"${edge.id}"` : i + 1}`;
+    if (typeof edge !== "object" || edge === null) {
+      problems.push(`${what} is not an object`);
+      return;
+    }
+    checkId(edge.id, what);
+    for (const key of ["fromNode", "toNode"]) {
+      if (typeof edge[key] !== "string" || !nodeIds.has(edge[key])) {
+        problems.push(`${what} ${key} ${JSON.stringify(edge[key])} is not a node`);
+      }
+    }
+    for (const key of ["fromSide", "toSide"]) {
+      if (edge[key] !== undefined && !SIDES.includes(edge[key] as NodeSide)) {
+        problems.push(`${what} has invalid ${key}`);
+      }
+    }
+    for (const key of ["fromEnd", "toEnd"]) {
+      if (edge[key] !== undefined && !EDGE_ENDS.includes(edge[key] as string)) {
+        problems.push(`${what} has invalid ${key}`);
+      }
+    }
+    if (edge.color !== undefined && !validColor(edge.color)) {
+      problems.push(`${what} has invalid color`);
+    }
+  });
+
+  return problems;
+}
+
+// --- Geometry ---
+
+function overlaps(a: Rect, b: Rect, margin = 0): boolean {
+  return (
+    a.x < b.x + b.width + margin &&
+    b.x < a.x + a.width + margin &&
+    a.y < b.y + b.height + margin &&
+    b.y < a.y + a.height + margin
+  );
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function bounds(rects: Rect[]): Rect {
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** The smallest group containing `node`, if any */
+function parentGroup(
+  nodes: AllCanvasNodeData[],
+  node: AllCanvasNodeData
+): AllCanvasNodeData | undefined {
+  return nodes
+    .filter((n) => n.type === "group" && n.id !== node.id && contains(n, node))
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+}
+
+/**
+ * Find a free spot for a `width` x `height` node. Groups are ignored as
+ * obstacles since nodes may sit inside them.
+ */
+function placeNode(
+  nodes: AllCanvasNodeData[],
+  width: number,
+  height: number,
+  near: AllCanvasNodeData | undefined,
+  group: AllCanvasNodeData | undefined
+): { x: number; y: number } {
+  const obstacles = nodes.filter((n) => n.type !== "group");
+  const free = (x: number, y: number) =>
+    !obstacles.some((n) => overlaps({ x, y, width, height }, n, GAP / 2));
+
+  if (group) {
+    // Fill the group row by row, then grow it downwards
+    for (let y = group.y + GROUP_PADDING; ; y += GAP) {
+      for (
+        let x = group.x + GROUP_PADDING;
+        x + width <= group.x + group.width - GROUP_PADDING;
+        x += GAP
+      ) {
+        if (free(x, y)) {
+          const bottom = y + height + GROUP_PADDING;
+          if (bottom > group.y + group.height) group.height = bottom - group.y;
+          return { x, y };
+        }
+      }
+      if (group.width < width + 2 * GROUP_PADDING) {
+        group.width = width + 2 * GROUP_PADDING;
+      }
+    }
+  }
+
+  if (near) {
+    // Right, below, left, above; then further to the right until free
+    const candidates = [
+      { x: near.x + near.width + GAP, y: near.y },
+      { x: near.x, y: near.y + near.height + GAP },
+      { x: near.x - width - GAP, y: near.y },
+      { x: near.x, y: near.y - height - GAP },
+    ];
+    for (const c of candidates) if (free(c.x, c.y)) return c;
+    for (let x = near.x + near.width + GAP; ; x += width + GAP) {
+      if (free(x, near.y)) return { x, y: near.y };
+    }
+  }
+
+  if (nodes.length === 0) return { x: 0, y: 0 };
+  const all = bounds(nodes);
+  return { x: all.x, y: all.y + all.height + GAP };
+}
+
+/** Sides facing each other, from the relative position of the centers */
+function facingSides(
+  from: AllCanvasNodeData,
+  to: AllCanvasNodeData
+): [NodeSide, NodeSide] {
+  const dx = to.x + to.width / 2 - (from.x + from.width / 2);
+  const dy = to.y + to.height / 2 - (from.y + from.height / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? ["right", "left"] : ["left", "right"];
+  }
+  return dy >= 0 ? ["bottom", "top"] : ["top", "bottom"];
+}
+
+// --- File access ---
+
+/** Random 16-digit hex id, as Obsidian generates them */
+function generateCanvasId(canvas: CanvasData): string {
+  const taken = new Set([
+    ...canvas.nodes.map((n) => n.id),
+    ...canvas.edges.map((e) => e.id),
+  ]);
+  for (;;) {
+    const bytes = new Uint8Array(8);
+    crypto.getRandomValues(bytes);
+    const id = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+    if (!taken.has(id)) return id;
+  }
+}
+
+function canvasPath(path: unknown): string | null {
+  if (typeof path !== "string" || !path) return null;
+  const normalized = normalizePath(path);
+  return normalized.endsWith(".canvas") ? normalized : null;
+}
+
+interface LoadedCanvas {
+  file: TFile | null;
+  path: string;
+  previousContent: string;
+  canvas: CanvasData;
+}
+
+async function loadCanvas(
+  app: App,
+  rawPath: unknown,
+  create = false
+): Promise<LoadedCanvas | string> {
+  const path = canvasPath(rawPath);
+  if (!path) return "Error: path must be a .canvas file";
+  const file = app.vault.getAbstractFileByPath(path);
+  if (!file) {
+    if (!create) return `Error: File not found: ${path}`;
+    return { file: null, path, previousContent: "", canvas: { nodes: [], edges: [] } };
+  }
+  if (!(file instanceof TFile)) return `Error: ${path} is a folder`;
+
+  const content = await app.vault.read(file);
+  let data: unknown;
+  try {
+    data = content.trim() ? JSON.parse(content) : {};
+  } catch (err) {
+    return `Error: ${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  const problems = validateCanvas(data);
+  if (problems.length > 0) {
+    return `Error: ${path} is not a valid canvas: ${problems.join("; ")}. Fix it with vault_write_file first.`;
+  }
+  const canvas = data as CanvasData;
+  canvas.nodes = canvas.nodes ?? [];
+  canvas.edges = canvas.edges ?? [];
+  return { file, path, previousContent: content, canvas };
+}
+
+async function saveCanvas(
+  app: App,
+  loaded: LoadedCanvas,
+  checkpoint: CheckpointEntry[]
+): Promise<string | null> {
+  const problems = validateCanvas(loaded.canvas);
+  if (problems.length > 0) {
+    return `Error: the change would make the canvas invalid: ${problems.join("; ")}`;
+  }
+  // Obsidian writes canvases tab-indented
+  const content = JSON.stringify(loaded.canvas, null, "\t");
+  if (loaded.file) {
+    await app.vault.modify(loaded.file, content);
+    checkpoint.push({
+      kind: "modified",
+      path: loaded.path,
+      previousContent: loaded.previousContent,
+    });
+  } else {
+    await ensureParentFolders(app, loaded.path, checkpoint);
+    await app.vault.create(loaded.path, content);
+    checkpoint.push({ kind: "created", path: loaded.path, isFolder: false });
+  }
+  return null;
+}
+
+function findNode(canvas: CanvasData, id: unknown): AllCanvasNodeData | undefined {
+  return typeof id === "string" ? canvas.nodes.find((n) => n.id === id) : undefined;
+}
+
+function describeNode(node: AllCanvasNodeData): string {
+  const preview = (text: string) => {
+    const flat = text.replace(/\s+/g, " ").trim();
+    return flat.length > MAX_PREVIEW_CHARS ? `${flat.slice(0, MAX_PREVIEW_CHARS)}...` : flat;
+  };
+  switch (node.type) {
+    case "text":
+      return `text: ${preview(node.text)}`;
+    case "file":
+      return `file: ${node.file}${node.subpath ?? ""}`;
+    case "link":
+      return `link: ${node.url}`;
+    case "group":
+      return `group${node.label ? `: ${node.label}` : ""}`;
+  }
+}
+
+/** Copy the content fields in `args` valid for `type` onto `node` */
+function applyContent(
+  node: Record<string, unknown>,
+  type: NodeType,
+  args: Record<string, unknown>
+): string | null {
+  const allowed: Record<NodeType, string[]> = {
+    text: ["text"],
+    file: ["file", "subpath"],
+    link: ["url"],
+    group: ["label"],
+  };
+  for (const key of ["text", "file", "subpath", "url", "label"]) {
+    if (args[key] === undefined) continue;
+    if (!allowed[type].includes(key)) {
+      return `Error: ${key} does not apply to ${type} nodes`;
+    }
+    if (typeof args[key] !== "string") return `Error: ${key} must be a string`;
+    node[key] = key === "file" ? normalizePath(args[key]) : args[key];
+  }
+  if (args.color !== undefined) {
+    if (!validColor(args.color)) {
+      return 'Error: color must be "1"-"6" or a hex color like "#4a90d9"';
+    }
+    node.color = args.color;
+  }
+  return null;
+}
+
+// --- Tool Implementations ---
+
+async function readCanvas(
+  app: App,
+  args: Record<string, unknown>
+): Promise<string> {
+  const path = canvasPath(args.path);
+  if (!path) return "Error: path must be a .canvas file";
+  const file = app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) return `Error: File not found: ${path}`;
+
+  const content = await app.vault.cachedRead(file);
+  let data: unknown;
+  try {
+    data = content.trim() ? JSON.parse(content) : { nodes: [], edges: [] };
+  } catch (err) {
+    return `Error: ${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (args.raw === true) return content;
+
+  const problems = validateCanvas(data);
+  if (problems.length > 0) {
+    return `${path} is not a valid canvas:\n${problems.map((p) => `- ${p}`).join("\n")}`;
+  }
+  const canvas = data as CanvasData;
+  const nodes = canvas.nodes ?? [];
+  const edges = canvas.edges ?? [];
+
+  const output = [`${path}: ${nodes.length} node(s), ${edges.length} edge(s)`];
+  if (nodes.length > 0) output.push("\nNodes:");
+  for (const node of nodes) {
+    const group = parentGroup(nodes, node);
+    const place = `(${node.x}, ${node.y}) ${node.width}x${node.height}`;
+    const extras = [
+      node.color ? `color ${String(node.color)}` : "",
+      group ? `in group ${group.id}` : "",
+    ].filter(Boolean);
+    output.push(
+      `- ${node.id} ${place} ${describeNode(node)}${extras.length > 0 ? ` [${extras.join(", ")}]` : ""}`
+    );
+    if (node.type === "file" && !app.vault.getAbstractFileByPath(node.file)) {
+      output.push(`  (file not found in vault)`);
+    }
+  }
+  if (edges.length > 0) output.push("\nEdges:");
+  for (const edge of edges) {
+    const label = edge.label ? ` "${edge.label}"` : "";
+    const arrow =
+      (edge.fromEnd === "arrow" ? "<" : "-") + "-" + (edge.toEnd === "none" ? "-" : ">");
+    output.push(`- ${edge.id}: ${edge.fromNode} ${arrow} ${edge.toNode}${label}`);
+  }
+  return output.join("\n");
+}
+
+async function addNode(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  const type = args.type as NodeType;
+  if (!NODE_TYPES.includes(type)) {
+    return `Error: type must be one of ${NODE_TYPES.join(", ")}`;
+  }
+  const loaded = await loadCanvas(app, args.path, true);
+  if (typeof loaded === "string") return loaded;
+  const { canvas } = loaded;
+
+  const node: Record<string, unknown> = { id: generateCanvasId(canvas), type };
+  const error = applyContent(node, type, args);
+  if (error) return error;
+  if (type === "text" && node.text === undefined) return "Error: text nodes need text";
+  if (type === "file" && node.file === undefined) return "Error: file nodes need file";
+  if (type === "link" && node.url === undefined) return "Error: link nodes need url";
+
+  const near = findNode(canvas, args.near);
+  if (args.near !== undefined && !near) return `Error: node not found: ${JSON.stringify(args.near)}`;
+  const group = findNode(canvas, args.group);
+  if (args.group !== undefined && group?.type !== "group") {
+    return `Error: group not found: ${JSON.stringify(args.group)}`;
+  }
+
+  let width = isFiniteNumber(args.width) && args.width > 0 ? args.width : DEFAULT_SIZES[type].width;
+  let height = isFiniteNumber(args.height) && args.height > 0 ? args.height : DEFAULT_SIZES[type].height;
+  let position: { x: number; y: number };
+
+  const members = Array.isArray(args.contains) ? (args.contains as unknown[]) : [];
+  if (members.length > 0) {
+    if (type !== "group") return "Error: contains only applies to group nodes";
+    const inner = members.map((id) => findNode(canvas, id));
+    const missing = members.filter((_, i) => !inner[i]);
+    if (missing.length > 0) return `Error: node(s) not found: ${missing.map(String).join(", ")}`;
+    const box = bounds(inner as AllCanvasNodeData[]);
+    position = { x: box.x - GROUP_PADDING, y: box.y - GROUP_PADDING };
+    width = box.width + 2 * GROUP_PADDING;
+    height = box.height + 2 * GROUP_PADDING;
+  } else if (isFiniteNumber(args.x) && isFiniteNumber(args.y)) {
+    position = { x: args.x, y: args.y };
+  } else {
+    position = placeNode(canvas.nodes, width, height, near, group);
+  }
+
+  Object.assign(node, {
+    x: Math.round(position.x),
+    y: Math.round(position.y),
+    width: Math.round(width),
+    height: Math.round(height),
+  });
+  // Groups go first so they render behind their contents
+  if (type === "group") canvas.nodes.unshift(node as AllCanvasNodeData);
+  else canvas.nodes.push(node as AllCanvasNodeData);
+
+  const saveError = await saveCanvas(app, loaded, checkpoint);
+  if (saveError) return saveError;
+  return `Added ${type} node ${String(node.id)} at (${String(node.x)}, ${String(node.y)}) ${String(node.width)}x${String(node.height)} to ${loaded.path}${loaded.file ? "" : " (canvas created)"}`;
+}
+
+async function addEdge(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  const loaded = await loadCanvas(app, args.path);
+  if (typeof loaded === "string") return loaded;
+  const { canvas } = loaded;
+
+  const from = findNode(canvas, args.fromNode);
+  const to = findNode(canvas, args.toNode);
+  if (!from) return `Error: node not found: ${String(args.fromNode)}`;
+  if (!to) return `Error: node not found: ${String(args.toNode)}`;
+
+  const [fromSide, toSide] = facingSides(from, to);
+  const edge: CanvasEdgeData = {
+    id: generateCanvasId(canvas),
+    fromNode: from.id,
+    fromSide: (args.fromSide as NodeSide | undefined) ?? fromSide,
+    toNode: to.id,
+    toSide: (args.toSide as NodeSide | undefined) ?? toSide,
+  };
+  for (const key of ["fromEnd", "toEnd", "label", "color"]) {
+    if (typeof args[key] === "string") edge[key] = args[key];
+  }
+  canvas.edges.push(edge);
+
+  const saveError = await saveCanvas(app, loaded, checkpoint);
+  if (saveError) return saveError;
+  return `Added edge ${edge.id}: ${from.id} (${edge.fromSide}) -> ${to.id} (${edge.toSide}) in ${loaded.path}`;
+}
+
+async function updateNode(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  const loaded = await loadCanvas(app, args.path);
+  if (typeof loaded === "string") return loaded;
+  const { canvas } = loaded;
+  const node = findNode(canvas, args.id);
+  if (!node) return `Error: node not found: ${String(args.id)}`;
+
+  const before: Rect = { x: node.x, y: node.y, width: node.width, height: node.height };
+  const error = applyContent(node, node.type, args);
+  if (error) return error;
+  for (const key of ["x", "y", "width", "height"] as const) {
+    if (args[key] === undefined) continue;
+    if (!isFiniteNumber(args[key])) return `Error: ${key} must be a number`;
+    node[key] = Math.round(args[key]);
+  }
+
+  // Take the group's contents along when it moves
+  const dx = node.x - before.x;
+  const dy = node.y - before.y;
+  let moved = 0;
+  if (node.type === "group" && (dx !== 0 || dy !== 0)) {
+    for (const other of canvas.nodes) {
+      if (other.id === node.id || !contains(before, other)) continue;
+      other.x += dx;
+      other.y += dy;
+      moved++;
+    }
+  }
+
+  const saveError = await saveCanvas(app, loaded, checkpoint);
+  if (saveError) return saveError;
+  return `Updated node ${node.id} in ${loaded.path}: ${describeNode(node)} at (${node.x}, ${node.y}) ${node.width}x${node.height}${moved > 0 ? ` (moved ${moved} node(s) inside the group)` : ""}`;
+}
+
+async function removeItems(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  const ids = Array.isArray(args.ids)
+    ? (args.ids as unknown[]).filter((id): id is string => typeof id === "string")
+    : [];
+  if (ids.length === 0) return "Error: ids must be a non-empty list";
+  const loaded = await loadCanvas(app, args.path);
+  if (typeof loaded === "string") return loaded;
+  const { canvas } = loaded;
+
+  const wanted = new Set(ids);
+  const removedNodes = canvas.nodes.filter((n) => wanted.has(n.id));
+  const removedNodeIds = new Set(removedNodes.map((n) => n.id));
+  const removedEdges = canvas.edges.filter(
+    (e) =>
+      wanted.has(e.id) ||
+      removedNodeIds.has(e.fromNode) ||
+      removedNodeIds.has(e.toNode)
+  );
+  const found = new Set([...removedNodeIds, ...removedEdges.map((e) => e.id)]);
+  const missing = ids.filter((id) => !found.has(id));
+  if (found.size === 0) return `Error: no nodes or edges found with ids: ${ids.join(", ")}`;
+
+  canvas.nodes = canvas.nodes.filter((n) => !removedNodeIds.has(n.id));
+  canvas.edges = canvas.edges.filter((e) => !removedEdges.includes(e));
+
+  const saveError = await saveCanvas(app, loaded, checkpoint);
+  if (saveError) return saveError;
+  const notFound = missing.length > 0 ? ` Not found: ${missing.join(", ")}.` : "";
+  return `Removed ${removedNodes.length} node(s) and ${removedEdges.length} edge(s) from ${loaded.path}.${notFound}`;
+}
@@ -0,0 +1,156 @@
+// ============================================================
+// Checkpoints - Record and revert vault mutations per agent turn
+// ============================================================
+
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import type { CheckpointEntry, FileDiff, TurnCheckpoint } from "../types";
+import { computeFileDiff } from "../utils/diff";
+
+const TEXT_EXTENSIONS = new Set([
+  "md",
+  "canvas",
+  "txt",
+  "json",
+  "css",
+  "js",
+  "csv",
+  "html",
+  "xml",
+  "yaml",
+  "yml",
+]);
+
+/**
+ * Read a file's content for a checkpoint. Returns null for files that
+ * cannot round-trip through a string (binary attachments).
+ */
+export async function captureFileContent(
+  app: App,
+  file: TFile
+): Promise<string | null> {
+  if (!TEXT_EXTENSIONS.has(file.extension.toLowerCase())) return null;
+  return await app.vault.read(file);
+}
+
+/**
+ * Create any missing ancestor folders of `path`, outermost first,
+ * recording each so the turn can remove them again.
+ */
+export async function ensureParentFolders(
+  app: App,
+  path: string,
+  checkpoint: CheckpointEntry[]
+): Promise<void> {
+  const parts = path.split("/");
+  for (let i = 1; i < parts.length; i++) {
+    const folderPath = parts.slice(0, i).join("/");
+    if (!app.vault.getAbstractFileByPath(folderPath)) {
+      await app.vault.createFolder(folderPath);
+      checkpoint.push({ kind: "created", path: folderPath, isFolder: true });
+    }
+  }
+}
+
+/**
+ * Diff the current content of files created or modified by `entries`
+ * against their recorded prior state.
+ */
+export async function diffCheckpointEntries(
+  app: App,
+  entries: CheckpointEntry[]
+): Promise<FileDiff[]> {
+  const diffs: FileDiff[] = [];
+  for (const entry of entries) {
+    const isNewFile = entry.kind === "created" && !entry.isFolder;
+    if (entry.kind !== "modified" && !isNewFile) continue;
+    const file = app.vault.getAbstractFileByPath(normalizePath(entry.path));
+    if (!(file instanceof TFile)) continue;
+    const after = await app.vault.read(file);
+    const before = entry.kind === "modified" ? entry.previousContent : "";
+    diffs.push(computeFileDiff(entry.path, before, after));
+  }
+  return diffs;
+}
+
+async function ensureParentFolder(app: App, path: string): Promise<void> {
+  const parts = path.split("/");
+  if (parts.length < 2) return;
+  const parentPath = parts.slice(0, -1).join("/");
+  if (!app.vault.getAbstractFileByPath(parentPath)) {
+    await app.vault.createFolder(parentPath);
+  }
+}
+
+/** Undo one recorded mutation. */
+export async function revertEntry(app: App, entry: CheckpointEntry): Promise<void> {
+  switch (entry.kind) {
+    case "created": {
+      const file = app.vault.getAbstractFileByPath(normalizePath(entry.path));
+      if (!file) return;
+      if (file instanceof TFolder && file.children.length > 0) {
+        throw new Error(`Folder is not empty: ${entry.path}`);
+      }
+      await app.fileManager.trashFile(file);
+      return;
+    }
+    case "modified": {
+      const path = normalizePath(entry.path);
+      const file = app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await app.vault.modify(file, entry.previousContent);
+      } else {
+        await ensureParentFolder(app, path);
+        await app.vault.create(path, entry.previousContent);
+      }
+      return;
+    }
+    case "renamed": {
+      const file = app.vault.getAbstractFileByPath(
+        normalizePath(entry.newPath)
+      );
+      if (!file) throw new Error(`File not found: ${entry.newPath}`);
+      await app.fileManager.renameFile(file, normalizePath(entry.oldPath));
+      return;
+    }
+    case "deleted": {
+      if (entry.previousContent === null) {
+        throw new Error(
+          `Cannot restore ${entry.path}; restore it from the trash instead`
+        );
+      }
+      const path = normalizePath(entry.path);
+      if (app.vault.getAbstractFileByPath(path)) {
+        throw new Error(`A file already exists at ${entry.path}`);
+      }
+      await ensureParentFolder(app, path);
+      await app.vault.create(path, entry.previousContent);
+      return;
+    }
+  }
+}
+
+function describeEntry(entry: CheckpointEntry): string {
+  return entry.kind === "renamed"
+    ? `${entry.oldPath} -> ${entry.newPath}`
+    : entry.path;
+}
+
+/**
+ * Undo a turn's mutations, newest first. Continues past failures so one
+ * conflicting file does not block the rest; returns the failure messages.
+ */
+export async function revertCheckpoint(
+  app: App,
+  checkpoint: TurnCheckpoint
+): Promise<string[]> {
+  const failures: string[] = [];
+  for (const entry of [...checkpoint.entries].reverse()) {
+    try {
+      await revertEntry(app, entry);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      failures.push(`${describeEntry(entry)}: ${errorMsg}`);
+    }
+  }
+  return failures;
+}
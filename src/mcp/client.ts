@@ -0,0 +1,368 @@
+// ============================================================
+// MCP Client - JSON-RPC connections to external MCP servers
+// ============================================================
+
+import { requestUrl } from "obsidian";
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import type { ExternalMcpServerConfig } from "../types";
+
+const PROTOCOL_VERSION = "2025-06-18";
+const CLIENT_INFO = { name: "obsidian-github-copilot-mcp", version: "1.0.0" };
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/** A tool as described by an MCP server's `tools/list` */
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+interface McpContentItem {
+  type: string;
+  text?: string;
+  resource?: { uri?: string; text?: string };
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** Flatten an MCP `tools/call` result into the text sent to the model. */
+function contentToText(content: McpContentItem[] | undefined): string {
+  if (!content || content.length === 0) return "(no output)";
+  return content
+    .map((item) => {
+      if (item.type === "text") return item.text ?? "";
+      if (item.type === "resource" && item.resource?.text !== undefined) {
+        return item.resource.text;
+      }
+      return `[${item.type} content omitted]`;
+    })
+    .join("\n");
+}
+
+/**
+ * Protocol logic shared by all transports: handshake, tool listing and
+ * tool calls. Subclasses only implement sending a request.
+ */
+export abstract class McpClient {
+  protected config: ExternalMcpServerConfig;
+  private nextId = 1;
+  /** Called when the connection is lost without close() being called */
+  onDisconnect: ((err: Error) => void) | null = null;
+
+  constructor(config: ExternalMcpServerConfig) {
+    this.config = config;
+  }
+
+  protected abstract send(
+    message: JsonRpcMessage,
+    abortSignal?: AbortSignal
+  ): Promise<JsonRpcMessage | null>;
+
+  abstract close(): Promise<void>;
+
+  async connect(): Promise<void> {
+    await this.request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    await this.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = (await this.request(
+        "tools/list",
+        cursor ? { cursor } : {}
+      )) as { tools?: McpToolInfo[]; nextCursor?: string };
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    abortSignal?: AbortSignal
+  ): Promise<string> {
+    const result = (await this.request(
+      "tools/call",
+      { name, arguments: args },
+      abortSignal
+    )) as { content?: McpContentItem[]; isError?: boolean };
+    const text = contentToText(result.content);
+    if (result.isError) throw new Error(text);
+    return text;
+  }
+
+  protected async request(
+    method: string,
+    params: unknown,
+    abortSignal?: AbortSignal
+  ): Promise<unknown> {
+    const id = this.nextId++;
+    const response = await this.send(
+      { jsonrpc: "2.0", id, method, params },
+      abortSignal
+    );
+    if (!response) {
+      throw new Error(`No response from ${this.config.name} for ${method}`);
+    }
+    if (response.error) {
+      throw new Error(
+        `${this.config.name}: ${response.error.message} (${response.error.code})`
+      );
+    }
+    return response.result;
+  }
+}
+
+// --- stdio transport ---
+
+/**
+ * Spawns the server as a child process and exchanges newline-delimited
+ * JSON-RPC messages over stdin/stdout. Desktop only.
+ */
+export class StdioMcpClient extends McpClient {
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private buffer = "";
+  private stderr = "";
+  private pending = new Map<
+    number | string,
+    { resolve: (msg: JsonRpcMessage) => void; reject: (err: Error) => void }
+  >();
+
+  async connect(): Promise<void> {
+    // Loaded lazily: the module does not exist on mobile
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { spawn } = require("child_process") as typeof import("child_process");
+
+    const child = spawn(this.config.command, this.config.args, {
+      env: { ...process.env, ...this.config.env },
+      stdio: "pipe",
+    });
+    this.process = child;
+
+    // Writes to a server that failed to start or has exited emit "error"
+    // on stdin, which would otherwise go unhandled
+    child.stdin.on("error", (err) => this.failAll(err));
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => this.onData(chunk));
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      // Keep the tail for error messages
+      this.stderr = (this.stderr + chunk).slice(-2000);
+    });
+    child.on("error", (err) => this.failAll(err));
+    child.on("exit", (code) => {
+      // close() clears the process first, so this exit was expected
+      const expected = this.process !== child;
+      this.process = null;
+      const err = new Error(
+        `${this.config.name} exited with code ${code ?? "unknown"}${this.stderr ? `: ${this.stderr.trim()}` : ""}`
+      );
+      this.failAll(err);
+      if (!expected) this.onDisconnect?.(err);
+    });
+
+    // A missing command is reported asynchronously; wait for it before
+    // writing the handshake
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", () => resolve());
+      child.once("error", reject);
+    });
+
+    await super.connect();
+  }
+
+  close(): Promise<void> {
+    const child = this.process;
+    this.process = null;
+    child?.kill();
+    return Promise.resolve();
+  }
+
+  protected send(
+    message: JsonRpcMessage,
+    abortSignal?: AbortSignal
+  ): Promise<JsonRpcMessage | null> {
+    const child = this.process;
+    if (!child || !child.stdin.writable) {
+      return Promise.reject(new Error(`${this.config.name} is not running`));
+    }
+
+    child.stdin.write(JSON.stringify(message) + "\n");
+    const id = message.id;
+    if (id === undefined || id === null) return Promise.resolve(null);
+
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${this.config.name} timed out on ${message.method}`));
+      }, REQUEST_TIMEOUT_MS);
+      const onAbort = () => {
+        this.pending.delete(id);
+        window.clearTimeout(timer);
+        void this.send({
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: id, reason: "Aborted by user" },
+        });
+        reject(new Error("Request aborted"));
+      };
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (msg) => {
+          window.clearTimeout(timer);
+          abortSignal?.removeEventListener("abort", onAbort);
+          resolve(msg);
+        },
+        reject: (err) => {
+          window.clearTimeout(timer);
+          abortSignal?.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      });
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line) as JsonRpcMessage;
+      } catch {
+        // Servers may log non-JSON lines to stdout; ignore them
+        continue;
+      }
+      if (message.id === undefined || message.id === null) continue;
+      if (message.method) {
+        // Server-initiated request (sampling, roots...): not supported
+        this.process?.stdin.write(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32601, message: "Method not supported" },
+          }) + "\n"
+        );
+        continue;
+      }
+      const pending = this.pending.get(message.id);
+      if (pending) {
+        this.pending.delete(message.id);
+        pending.resolve(message);
+      }
+    }
+  }
+
+  private failAll(err: Error): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+// --- Streamable HTTP transport ---
+
+/**
+ * POSTs each JSON-RPC message to the server URL. Handles both plain JSON
+ * responses and responses delivered as an SSE stream.
+ */
+export class HttpMcpClient extends McpClient {
+  private sessionId: string | null = null;
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      await requestUrl({
+        url: this.config.url,
+        method: "DELETE",
+        headers: { ...this.config.headers, "Mcp-Session-Id": this.sessionId },
+        throw: false,
+      });
+    } catch {
+      // Best effort: the server may already be gone
+    }
+    this.sessionId = null;
+  }
+
+  protected async send(
+    message: JsonRpcMessage,
+    abortSignal?: AbortSignal
+  ): Promise<JsonRpcMessage | null> {
+    if (abortSignal?.aborted) throw new Error("Request aborted");
+
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      "MCP-Protocol-Version": PROTOCOL_VERSION,
+    };
+    if (this.sessionId) headers["Mcp-Session-Id"] = this.sessionId;
+
+    const response = await requestUrl({
+      url: this.config.url,
+      method: "POST",
+      headers,
+      body: JSON.stringify(message),
+      throw: false,
+    });
+    if (abortSignal?.aborted) throw new Error("Request aborted");
+
+    if (response.status >= 400) {
+      throw new Error(
+        `${this.config.name} returned status ${response.status}: ${response.text.slice(0, 500)}`
+      );
+    }
+
+    const header = (name: string) =>
+      Object.entries(response.headers).find(
+        ([key]) => key.toLowerCase() === name
+      )?.[1];
+
+    const sessionId = header("mcp-session-id");
+    if (sessionId) this.sessionId = sessionId;
+
+    if (message.id === undefined || !response.text) return null;
+
+    const contentType = header("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      // Find the response to our request among the streamed events
+      for (const line of response.text.split("\n")) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        try {
+          const event = JSON.parse(trimmed.slice(5).trim()) as JsonRpcMessage;
+          if (event.id === message.id && !event.method) return event;
+        } catch {
+          // Skip malformed events
+        }
+      }
+      return null;
+    }
+
+    return JSON.parse(response.text) as JsonRpcMessage;
+  }
+}
+
+export function createMcpClient(config: ExternalMcpServerConfig): McpClient {
+  return config.transport === "stdio"
+    ? new StdioMcpClient(config)
+    : new HttpMcpClient(config);
+}
@@ -0,0 +1,188 @@
+// ============================================================
+// External Tools - Tools provided by connected MCP servers
+// ============================================================
+
+import type { ExternalMcpServerConfig } from "../types";
+import { createMcpClient } from "./client";
+import type { McpClient, McpToolInfo } from "./client";
+import type { ToolRegistry } from "./registry";
+
+/** Function names must match ^[a-zA-Z0-9_-]{1,64}$ for the chat API */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export interface ExternalServerStatus {
+  state: "disconnected" | "connecting" | "connected" | "error";
+  toolCount: number;
+  error?: string;
+}
+
+interface ConnectedServer {
+  config: ExternalMcpServerConfig;
+  client: McpClient | null;
+  status: ExternalServerStatus;
+  /** Removes the server's tools from the registry */
+  unregisterTools: (() => void)[];
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Namespaced tool name: `<server>__<tool>`, sanitized for the chat API
+ * and kept distinct from the built-in `vault_*` tools.
+ */
+export function externalToolName(serverName: string, toolName: string): string {
+  const name = `${slugify(serverName) || "server"}__${slugify(toolName)}`;
+  return name.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Connects to the MCP servers configured in settings and registers their
+ * tools, namespaced, in the tool registry. Calls are routed back to the
+ * owning server.
+ */
+export class ExternalToolManager {
+  private servers = new Map<string, ConnectedServer>();
+  private registry: ToolRegistry;
+  private onDebug: (msg: string) => void;
+  private onChange: () => void;
+
+  constructor(
+    registry: ToolRegistry,
+    onDebug: (msg: string) => void,
+    onChange: () => void = () => {}
+  ) {
+    this.registry = registry;
+    this.onDebug = onDebug;
+    this.onChange = onChange;
+  }
+
+  /** Reconnect every enabled server from scratch. */
+  async connectAll(configs: ExternalMcpServerConfig[]): Promise<void> {
+    await this.closeAll();
+    await Promise.all(
+      configs.filter((c) => c.enabled).map((c) => this.connect(c))
+    );
+  }
+
+  async connect(config: ExternalMcpServerConfig): Promise<void> {
+    await this.disconnect(config.id);
+
+    const server: ConnectedServer = {
+      config,
+      client: null,
+      status: { state: "connecting", toolCount: 0 },
+      unregisterTools: [],
+    };
+    this.servers.set(config.id, server);
+    this.onChange();
+
+    const client = createMcpClient(config);
+    client.onDisconnect = (err) => this.onDisconnected(server, err);
+    try {
+      await client.connect();
+      const remoteTools = await client.listTools();
+      if (this.servers.get(config.id) !== server) {
+        // Disconnected or reconnected while the handshake was running
+        await client.close();
+        return;
+      }
+      server.client = client;
+      this.registerTools(server, remoteTools);
+      server.status = { state: "connected", toolCount: remoteTools.length };
+      this.onDebug(
+        `[MCP client] ${config.name}: connected, ${remoteTools.length} tool(s)`
+      );
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      await client.close();
+      server.status = { state: "error", toolCount: 0, error: errorMsg };
+      this.onDebug(`[MCP client] ${config.name}: ${errorMsg}`);
+    }
+    this.onChange();
+  }
+
+  async disconnect(serverId: string): Promise<void> {
+    const server = this.servers.get(serverId);
+    if (!server) return;
+    this.servers.delete(serverId);
+    for (const unregister of server.unregisterTools) unregister();
+    await server.client?.close();
+    this.onChange();
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.servers.keys()].map((id) => this.disconnect(id)));
+  }
+
+  getStatus(serverId: string): ExternalServerStatus {
+    return (
+      this.servers.get(serverId)?.status ?? {
+        state: "disconnected",
+        toolCount: 0,
+      }
+    );
+  }
+
+  /** The server went away on its own: drop its tools and show the error */
+  private onDisconnected(server: ConnectedServer, err: Error): void {
+    if (this.servers.get(server.config.id) !== server || !server.client) {
+      // Still connecting: connect() reports the failure itself
+      return;
+    }
+    for (const unregister of server.unregisterTools) unregister();
+    server.unregisterTools = [];
+    server.client = null;
+    server.status = { state: "error", toolCount: 0, error: err.message };
+    this.onDebug(`[MCP client] ${server.config.name}: ${err.message}`);
+    this.onChange();
+  }
+
+  private registerTools(
+    server: ConnectedServer,
+    remoteTools: McpToolInfo[]
+  ): void {
+    const { config } = server;
+    for (const remote of remoteTools) {
+      const name = externalToolName(config.name, remote.name);
+      if (this.registry.has(name)) {
+        this.onDebug(`[MCP client] Skipping duplicate tool name ${name}`);
+        continue;
+      }
+      server.unregisterTools.push(
+        this.registry.register({
+          definition: {
+            type: "function",
+            function: {
+              name,
+              description: `[${config.name}] ${remote.description ?? remote.name}`,
+              parameters: remote.inputSchema ?? {
+                type: "object",
+                properties: {},
+              },
+            },
+          },
+          handler: async (args, { abortSignal }) => {
+            if (!server.client) {
+              throw new Error(`Tool server ${config.name} is not connected`);
+            }
+            return await server.client.callTool(remote.name, args, abortSignal);
+          },
+          // Nothing is known about what a remote tool does
+          risk: "write",
+          category: config.name,
+          summary: remote.description ?? remote.name,
+          source: `mcp:${config.id}`,
+          // Read live so changing the server's policy applies immediately
+          get defaultPolicy() {
+            return config.approvalPolicy;
+          },
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,335 @@
+// ============================================================
+// Frontmatter Tools - Structured access to YAML properties
+// ============================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import type { CheckpointEntry } from "../types";
+import type { RegisteredTool } from "./registry";
+
+type FrontmatterOp = "set" | "merge" | "delete" | "append" | "remove";
+
+/** Obsidian property types a value can be coerced to */
+type PropertyType = "text" | "number" | "checkbox" | "date" | "datetime" | "list";
+
+interface FrontmatterOperation {
+  op: FrontmatterOp;
+  key?: string;
+  value?: unknown;
+  type?: PropertyType;
+}
+
+const OPS: FrontmatterOp[] = ["set", "merge", "delete", "append", "remove"];
+const PROPERTY_TYPES: PropertyType[] = [
+  "text",
+  "number",
+  "checkbox",
+  "date",
+  "datetime",
+  "list",
+];
+
+/** Properties whose values Obsidian stores without a leading "#" */
+const TAG_KEYS = new Set(["tags", "tag"]);
+
+export function getFrontmatterTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_frontmatter",
+          description:
+            "Read the YAML frontmatter (properties) of a note as JSON. Faster and more reliable than reading the whole file when only properties are needed.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root.",
+              },
+              keys: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only return these properties. Default: all.",
+              },
+            },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app }) => getFrontmatter(app, args),
+      risk: "read",
+      category: "Properties",
+      summary: "Read note properties",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_update_frontmatter",
+          description:
+            "Change YAML frontmatter (properties) of a note without touching its body. Operations run in order: set (replace a value), merge (shallow-merge an object into the frontmatter, or into an object property if key is given), delete (remove a key), append (add items to a list property, skipping duplicates), remove (remove items from a list property). Creates the frontmatter block if missing.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root.",
+              },
+              operations: {
+                type: "array",
+                description: "Changes to apply, in order.",
+                items: {
+                  type: "object",
+                  properties: {
+                    op: { type: "string", enum: OPS },
+                    key: {
+                      type: "string",
+                      description:
+                        "Property name. Optional for merge (merges into the top level).",
+                    },
+                    value: {
+                      description:
+                        "New value: string, number, boolean, list or object. For append/remove, a single item or a list of items.",
+                    },
+                    type: {
+                      type: "string",
+                      enum: PROPERTY_TYPES,
+                      description:
+                        "Coerce the value to this property type, e.g. number for \"3\" or date for \"2025-01-31\".",
+                    },
+                  },
+                  required: ["op"],
+                },
+              },
+            },
+            required: ["path", "operations"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) =>
+        updateFrontmatter(app, args, checkpoint),
+      risk: "write",
+      category: "Properties",
+      summary: "Set, merge or delete note properties",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+  ];
+}
+
+function getMarkdownFile(app: App, path: unknown): TFile | string {
+  if (typeof path !== "string" || !path) return "Error: path is required";
+  const file = app.vault.getAbstractFileByPath(normalizePath(path));
+  if (!(file instanceof TFile)) return `Error: File not found: ${path}`;
+  if (file.extension !== "md") {
+    return `Error: ${path} is not a Markdown note and has no frontmatter`;
+  }
+  return file;
+}
+
+function getFrontmatter(app: App, args: Record<string, unknown>): string {
+  const file = getMarkdownFile(app, args.path);
+  if (typeof file === "string") return file;
+
+  const frontmatter: Record<string, unknown> = {
+    ...(app.metadataCache.getFileCache(file)?.frontmatter ?? {}),
+  };
+  // Cache bookkeeping, not a property
+  delete frontmatter.position;
+
+  const keys = Array.isArray(args.keys)
+    ? args.keys.filter((k): k is string => typeof k === "string")
+    : [];
+  const selected =
+    keys.length > 0
+      ? Object.fromEntries(
+          keys.filter((k) => k in frontmatter).map((k) => [k, frontmatter[k]])
+        )
+      : frontmatter;
+
+  if (Object.keys(selected).length === 0) {
+    return keys.length > 0
+      ? `None of the requested properties are set in ${file.path}.`
+      : `${file.path} has no frontmatter.`;
+  }
+  return JSON.stringify(selected, null, 2);
+}
+
+function coerceValue(value: unknown, type: PropertyType | undefined): unknown {
+  if (!type) return value;
+  switch (type) {
+    case "text":
+      if (value === null || value === undefined) return "";
+      return typeof value === "string" ? value : JSON.stringify(value);
+    case "number": {
+      const num = typeof value === "number" ? value : Number(value);
+      if (Number.isNaN(num)) throw new Error(`"${String(value)}" is not a number`);
+      return num;
+    }
+    case "checkbox":
+      if (typeof value === "boolean") return value;
+      if (value === "true") return true;
+      if (value === "false") return false;
+      throw new Error(`"${String(value)}" is not true or false`);
+    case "date":
+    case "datetime": {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${String(value)}" is not a valid date`);
+      }
+      // Keep what the model wrote when it is already in the right format
+      const text = String(value);
+      if (type === "date") {
+        return /^\d{4}-\d{2}-\d{2}$/.test(text)
+          ? text
+          : date.toISOString().slice(0, 10);
+      }
+      return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(text)
+        ? text
+        : date.toISOString().slice(0, 19);
+    }
+    case "list":
+      return Array.isArray(value) ? value : [value];
+  }
+}
+
+function normalizeItems(key: string, value: unknown): unknown[] {
+  const items: unknown[] = Array.isArray(value) ? (value as unknown[]) : [value];
+  if (!TAG_KEYS.has(key)) return items;
+  return items.map((item) =>
+    typeof item === "string" ? item.replace(/^#/, "") : item
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Validate raw tool arguments into operations, or return an error. */
+function parseOperations(raw: unknown): FrontmatterOperation[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return "Error: operations must be a non-empty list";
+  }
+  const ops: FrontmatterOperation[] = [];
+  for (const [i, item] of raw.entries()) {
+    if (!isPlainObject(item)) return `Error: operation ${i + 1} is not an object`;
+    const op = item.op as FrontmatterOp;
+    const key = typeof item.key === "string" ? item.key.trim() : undefined;
+    const type = item.type as PropertyType | undefined;
+    if (!OPS.includes(op)) {
+      return `Error: operation ${i + 1} has unknown op "${String(item.op)}"`;
+    }
+    if (type !== undefined && !PROPERTY_TYPES.includes(type)) {
+      return `Error: operation ${i + 1} has unknown type "${String(item.type)}"`;
+    }
+    if (op !== "merge" && !key) {
+      return `Error: operation ${i + 1} (${op}) requires a key`;
+    }
+    if (op !== "delete" && item.value === undefined) {
+      return `Error: operation ${i + 1} (${op}) requires a value`;
+    }
+    if (op === "merge" && !isPlainObject(item.value)) {
+      return `Error: operation ${i + 1} (merge) requires an object value`;
+    }
+    ops.push({ op, key, value: item.value, type });
+  }
+  return ops;
+}
+
+function applyOperation(
+  frontmatter: Record<string, unknown>,
+  { op, key, value, type }: FrontmatterOperation
+): string {
+  switch (op) {
+    case "set": {
+      const k = key as string;
+      let coerced = coerceValue(value, type);
+      if (TAG_KEYS.has(k)) coerced = normalizeItems(k, coerced);
+      frontmatter[k] = coerced;
+      return `set ${k}`;
+    }
+    case "merge": {
+      const patch = value as Record<string, unknown>;
+      if (!key) {
+        Object.assign(frontmatter, patch);
+        return `merged ${Object.keys(patch).join(", ")}`;
+      }
+      const current = frontmatter[key];
+      if (current !== undefined && !isPlainObject(current)) {
+        throw new Error(`${key} is not an object and cannot be merged into`);
+      }
+      frontmatter[key] = { ...(current ?? {}), ...patch };
+      return `merged into ${key}`;
+    }
+    case "delete": {
+      const k = key as string;
+      if (!(k in frontmatter)) return `${k} was not set`;
+      delete frontmatter[k];
+      return `deleted ${k}`;
+    }
+    case "append":
+    case "remove": {
+      const k = key as string;
+      const current = frontmatter[k];
+      const list =
+        current === undefined || current === null
+          ? []
+          : Array.isArray(current)
+            ? [...(current as unknown[])]
+            : [current];
+      const items = normalizeItems(
+        k,
+        type ? coerceValue(value, type) : value
+      );
+      const same = (a: unknown, b: unknown) =>
+        JSON.stringify(a) === JSON.stringify(b);
+      if (op === "append") {
+        const added = items.filter((item) => !list.some((x) => same(x, item)));
+        frontmatter[k] = [...list, ...added];
+        return `appended ${added.length} item(s) to ${k}`;
+      }
+      const kept = list.filter((x) => !items.some((item) => same(x, item)));
+      frontmatter[k] = kept;
+      return `removed ${list.length - kept.length} item(s) from ${k}`;
+    }
+  }
+}
+
+async function updateFrontmatter(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  const file = getMarkdownFile(app, args.path);
+  if (typeof file === "string") return file;
+
+  const ops = parseOperations(args.operations);
+  if (typeof ops === "string") return ops;
+
+  const previousContent = await app.vault.read(file);
+  const changes: string[] = [];
+  let result: Record<string, unknown> = {};
+  try {
+    await app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        // Apply to a copy first so a failing operation changes nothing
+        const draft = structuredClone(frontmatter);
+        for (const op of ops) changes.push(applyOperation(draft, op));
+        for (const key of Object.keys(frontmatter)) {
+          if (!(key in draft)) delete frontmatter[key];
+        }
+        Object.assign(frontmatter, draft);
+        result = draft;
+      }
+    );
+  } catch (err) {
+    return `Error: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  checkpoint.push({ kind: "modified", path: file.path, previousContent });
+  return `Frontmatter updated: ${file.path} (${changes.join("; ")})\n${JSON.stringify(result, null, 2)}`;
+}
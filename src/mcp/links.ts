@@ -0,0 +1,410 @@
+// ============================================================
+// Link Graph Tools - Navigate the vault through its links
+// ============================================================
+
+import { App, TFile, getLinkpath, normalizePath } from "obsidian";
+import type { Reference } from "obsidian";
+import { pageFooter } from "./output";
+import type { PathPolicy } from "./pathPolicy";
+import type { RegisteredTool } from "./registry";
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_NEIGHBOR_DEPTH = 3;
+const MAX_NEIGHBORS = 200;
+/** Longest context line returned per link */
+const MAX_CONTEXT_CHARS = 200;
+
+type LinkDirection = "in" | "out" | "both";
+
+const pathProperty = {
+  type: "string",
+  description: "File path relative to vault root.",
+};
+
+export function getLinkTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_backlinks",
+          description:
+            "List the notes that link to a file, with the line containing each link. Use this to answer questions like \"what references this note?\" instead of searching for its name.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              includeContext: {
+                type: "boolean",
+                description:
+                  "Include the line around each link. Default true.",
+              },
+              maxResults: {
+                type: "number",
+                description: `Maximum number of linking notes. Default ${DEFAULT_MAX_RESULTS}.`,
+              },
+              offset: {
+                type: "number",
+                description: "Skip this many results, to get the next page. Default 0.",
+              },
+            },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app, pathPolicy }) =>
+        getBacklinks(app, args, pathPolicy),
+      risk: "read",
+      category: "Links",
+      summary: "List notes linking to a file",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_outgoing_links",
+          description:
+            "List the links and embeds in a note, each with its resolved file path (or marked unresolved) and the line it appears on.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+            },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app, pathPolicy }) =>
+        getOutgoingLinks(app, args, pathPolicy),
+      risk: "read",
+      category: "Links",
+      summary: "List links from a note",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_list_unresolved_links",
+          description:
+            "List links that point to notes which do not exist yet, with the notes containing them. Useful to find missing notes or broken links.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  "Only consider links from this folder or file. Default: whole vault.",
+              },
+              maxResults: {
+                type: "number",
+                description: `Maximum number of missing targets. Default ${DEFAULT_MAX_RESULTS}.`,
+              },
+              offset: {
+                type: "number",
+                description: "Skip this many results, to get the next page. Default 0.",
+              },
+            },
+            required: [],
+          },
+        },
+      },
+      handler: (args, { app, pathPolicy }) =>
+        listUnresolvedLinks(app, args, pathPolicy),
+      risk: "read",
+      category: "Links",
+      summary: "List links to missing notes",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_neighbors",
+          description:
+            "Explore the link graph around a note: every note reachable within `depth` links, with its distance. Follows outgoing links, backlinks, or both.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              depth: {
+                type: "number",
+                description: `How many links away to go (1-${MAX_NEIGHBOR_DEPTH}). Default 1.`,
+              },
+              direction: {
+                type: "string",
+                enum: ["in", "out", "both"],
+                description:
+                  'Follow backlinks ("in"), outgoing links ("out") or both. Default "both".',
+              },
+            },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app, pathPolicy }) =>
+        getNeighbors(app, args, pathPolicy),
+      risk: "read",
+      category: "Links",
+      summary: "Explore notes linked within N hops",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+  ];
+}
+
+function getFile(app: App, path: unknown): TFile | string {
+  if (typeof path !== "string" || !path) return "Error: path is required";
+  const file = app.vault.getAbstractFileByPath(normalizePath(path));
+  if (!(file instanceof TFile)) return `Error: File not found: ${path}`;
+  return file;
+}
+
+function positiveInt(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 1 ? Math.floor(value) : fallback;
+}
+
+function readOffset(value: unknown): number {
+  return typeof value === "number" && value > 0 ? Math.floor(value) : 0;
+}
+
+/** Every link, embed and frontmatter link of a note, with line numbers */
+function getReferences(
+  app: App,
+  file: TFile
+): { ref: Reference; line: number | null }[] {
+  const cache = app.metadataCache.getFileCache(file);
+  if (!cache) return [];
+  const body = [...(cache.links ?? []), ...(cache.embeds ?? [])]
+    .sort((a, b) => a.position.start.offset - b.position.start.offset)
+    .map((ref) => ({ ref: ref as Reference, line: ref.position.start.line }));
+  const frontmatter = (cache.frontmatterLinks ?? []).map((ref) => ({
+    ref: ref as Reference,
+    line: null,
+  }));
+  return [...frontmatter, ...body];
+}
+
+function resolveReference(
+  app: App,
+  ref: Reference,
+  sourcePath: string
+): TFile | null {
+  return app.metadataCache.getFirstLinkpathDest(
+    getLinkpath(ref.link),
+    sourcePath
+  );
+}
+
+function contextLine(lines: string[], line: number | null): string {
+  if (line === null) return "(frontmatter)";
+  const text = (lines[line] ?? "").trim();
+  return text.length > MAX_CONTEXT_CHARS
+    ? `${text.slice(0, MAX_CONTEXT_CHARS)}...`
+    : text;
+}
+
+/** Map of target path to the paths linking to it */
+function buildBacklinkIndex(app: App): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  for (const [source, targets] of Object.entries(
+    app.metadataCache.resolvedLinks
+  )) {
+    for (const target of Object.keys(targets)) {
+      let sources = index.get(target);
+      if (!sources) {
+        sources = new Set();
+        index.set(target, sources);
+      }
+      sources.add(source);
+    }
+  }
+  return index;
+}
+
+async function getBacklinks(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): Promise<string> {
+  const file = getFile(app, args.path);
+  if (typeof file === "string") return file;
+  const includeContext = args.includeContext !== false;
+  const maxResults = positiveInt(args.maxResults, DEFAULT_MAX_RESULTS);
+  const offset = readOffset(args.offset);
+
+  const sources = Object.entries(app.metadataCache.resolvedLinks)
+    .filter(
+      ([source, targets]) => targets[file.path] && pathPolicy.canRead(source)
+    )
+    .map(([source, targets]) => ({ source, count: targets[file.path] }))
+    .sort((a, b) => b.count - a.count || a.source.localeCompare(b.source));
+
+  if (sources.length === 0) return `No notes link to ${file.path}.`;
+  if (offset >= sources.length) {
+    return `${sources.length} note(s) link to ${file.path}; offset ${offset} is past the end.`;
+  }
+
+  const page = sources.slice(offset, offset + maxResults);
+  const output: string[] = [
+    `${sources.length} note(s) link to ${file.path} (showing ${offset + 1}-${offset + page.length}):`,
+  ];
+  for (const { source, count } of page) {
+    output.push(`\n${source} (${count} link(s))`);
+    if (!includeContext) continue;
+
+    const sourceFile = app.vault.getAbstractFileByPath(source);
+    if (!(sourceFile instanceof TFile)) continue;
+    const lines = (await app.vault.cachedRead(sourceFile)).split("\n");
+    for (const { ref, line } of getReferences(app, sourceFile)) {
+      if (resolveReference(app, ref, source)?.path !== file.path) continue;
+      const location = line === null ? "" : `L${line + 1}: `;
+      output.push(`  ${location}${contextLine(lines, line)}`);
+    }
+  }
+  const footer = pageFooter(offset, page.length, sources.length);
+  if (footer) output.push(`\n${footer}`);
+  return output.join("\n");
+}
+
+async function getOutgoingLinks(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): Promise<string> {
+  const file = getFile(app, args.path);
+  if (typeof file === "string") return file;
+
+  // Links to notes the tools may not read are left out
+  const refs = getReferences(app, file)
+    .map((entry) => ({
+      ...entry,
+      target: resolveReference(app, entry.ref, file.path),
+    }))
+    .filter(({ target }) => !target || pathPolicy.canRead(target.path));
+  if (refs.length === 0) return `${file.path} has no outgoing links.`;
+
+  const lines = (await app.vault.cachedRead(file)).split("\n");
+  const output = refs.map(({ ref, line, target }) => {
+    const resolved = target ? target.path : "(unresolved)";
+    const location = line === null ? "frontmatter" : `L${line + 1}`;
+    return `${ref.original} -> ${resolved} [${location}] ${contextLine(lines, line)}`;
+  });
+  return `${refs.length} link(s) in ${file.path}:\n${output.join("\n")}`;
+}
+
+function listUnresolvedLinks(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): string {
+  const scope =
+    typeof args.path === "string" && args.path && args.path !== "/"
+      ? normalizePath(args.path)
+      : "";
+  const maxResults = positiveInt(args.maxResults, DEFAULT_MAX_RESULTS);
+  const offset = readOffset(args.offset);
+
+  // Missing target -> notes that reference it
+  const missing = new Map<string, { sources: string[]; count: number }>();
+  for (const [source, targets] of Object.entries(
+    app.metadataCache.unresolvedLinks
+  )) {
+    if (scope && source !== scope && !source.startsWith(`${scope}/`)) {
+      continue;
+    }
+    if (!pathPolicy.canRead(source)) continue;
+    for (const [target, count] of Object.entries(targets)) {
+      const entry = missing.get(target) ?? { sources: [], count: 0 };
+      entry.sources.push(source);
+      entry.count += count;
+      missing.set(target, entry);
+    }
+  }
+
+  if (missing.size === 0) return "No unresolved links found.";
+
+  const sorted = [...missing.entries()].sort(
+    (a, b) => b[1].count - a[1].count || a[0].localeCompare(b[0])
+  );
+  if (offset >= sorted.length) {
+    return `${missing.size} unresolved link target(s); offset ${offset} is past the end.`;
+  }
+  const page = sorted.slice(offset, offset + maxResults);
+  const output = page.map(
+    ([target, { sources, count }]) =>
+      `${target} (${count} link(s)) from: ${sources.sort().join(", ")}`
+  );
+  const footer = pageFooter(offset, page.length, sorted.length);
+  if (footer) output.push(footer);
+  return `${missing.size} unresolved link target(s):\n${output.join("\n")}`;
+}
+
+function getNeighbors(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): string {
+  const file = getFile(app, args.path);
+  if (typeof file === "string") return file;
+  const depth = Math.min(positiveInt(args.depth, 1), MAX_NEIGHBOR_DEPTH);
+  const direction: LinkDirection =
+    args.direction === "in" || args.direction === "out"
+      ? args.direction
+      : "both";
+
+  const outgoing = app.metadataCache.resolvedLinks;
+  const incoming = direction === "out" ? null : buildBacklinkIndex(app);
+
+  // Breadth-first: distance and how each note was first reached
+  const found = new Map<string, { distance: number; relation: string }>();
+  let frontier = [file.path];
+  const visited = new Set(frontier);
+  let truncated = false;
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const path of frontier) {
+      const edges: [string, string][] = [];
+      if (direction !== "in") {
+        for (const target of Object.keys(outgoing[path] ?? {})) {
+          edges.push([target, `linked from ${path}`]);
+        }
+      }
+      for (const source of incoming?.get(path) ?? []) {
+        edges.push([source, `links to ${path}`]);
+      }
+
+      for (const [neighbor, relation] of edges) {
+        if (visited.has(neighbor) || !pathPolicy.canRead(neighbor)) continue;
+        if (found.size >= MAX_NEIGHBORS) {
+          truncated = true;
+          break;
+        }
+        visited.add(neighbor);
+        found.set(neighbor, { distance, relation });
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  if (found.size === 0) return `${file.path} has no linked notes.`;
+
+  const output = [...found.entries()]
+    .sort(
+      (a, b) => a[1].distance - b[1].distance || a[0].localeCompare(b[0])
+    )
+    .map(
+      ([path, { distance, relation }]) =>
+        `[${distance}] ${path} (${relation})`
+    );
+  if (truncated) {
+    output.push(`... stopped after ${MAX_NEIGHBORS} notes; use a smaller depth`);
+  }
+  return `${found.size} note(s) within ${depth} link(s) of ${file.path}:\n${output.join("\n")}`;
+}
@@ -0,0 +1,92 @@
+// ============================================================
+// Tool Output - Line ranges and size limits for tool results
+// ============================================================
+
+/** Longest result any tool may return; longer output is cut with a marker */
+export const MAX_TOOL_OUTPUT_CHARS = 20_000;
+
+/** Default `maxChars` for file reads, leaving room for the header */
+export const DEFAULT_READ_CHARS = 16_000;
+
+/**
+ * Cut `text` to `maxChars` at a line boundary and say how to get the rest.
+ * `hint` names the argument that continues, e.g. "offset=40".
+ */
+export function truncateOutput(
+  text: string,
+  maxChars: number = MAX_TOOL_OUTPUT_CHARS,
+  hint = "a narrower request (offset, startLine or maxResults)"
+): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.lastIndexOf("\n", maxChars);
+  const kept = text.slice(0, cut > 0 ? cut : maxChars);
+  const remaining = text.slice(kept.length).split("\n").length - 1;
+  return `${kept}\n[... truncated, ${Math.max(remaining, 1)} more line(s) — call again with ${hint}]`;
+}
+
+function readInt(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.floor(value)
+    : undefined;
+}
+
+/**
+ * Apply `startLine`, `endLine` (1-based, inclusive) and `maxChars` from
+ * tool arguments to file content. Content that is returned whole is
+ * returned as-is; anything else gets a header with the line range and a
+ * marker telling the model where to continue.
+ */
+export function readLineRange(
+  path: string,
+  content: string,
+  args: Record<string, unknown>
+): string {
+  const lines = content.split("\n");
+  const total = lines.length;
+  const start = Math.max(1, readInt(args.startLine) ?? 1);
+  const end = Math.min(total, readInt(args.endLine) ?? total);
+  const maxChars = Math.max(1, readInt(args.maxChars) ?? DEFAULT_READ_CHARS);
+
+  if (start > total) {
+    return `Error: startLine ${start} is past the end of ${path} (${total} lines)`;
+  }
+  if (end < start) return `Error: endLine ${end} is before startLine ${start}`;
+
+  const selected: string[] = [];
+  let size = 0;
+  let last = start - 1;
+  for (let i = start - 1; i < end; i++) {
+    const line = lines[i];
+    if (size + line.length + 1 > maxChars && selected.length > 0) break;
+    // A single oversized line is cut rather than skipped
+    selected.push(line.length > maxChars ? `${line.slice(0, maxChars)}[...]` : line);
+    size += line.length + 1;
+    last = i + 1;
+  }
+
+  if (start === 1 && last === total && !selected[selected.length - 1]?.endsWith("[...]")) {
+    return content;
+  }
+
+  const body = selected.join("\n");
+  const header = `Lines ${start}-${last} of ${total} in ${path}:`;
+  if (last < end) {
+    return `${header}\n${body}\n[... truncated, ${end - last} more line(s) — call again with startLine=${last + 1}]`;
+  }
+  return `${header}\n${body}`;
+}
+
+/**
+ * Format the page line of a paginated listing: what is shown and, if
+ * there is more, the offset to continue from.
+ */
+export function pageFooter(
+  offset: number,
+  shown: number,
+  total: number
+): string | null {
+  const next = offset + shown;
+  return next < total
+    ? `... ${total - next} more — call again with offset=${next}`
+    : null;
+}
@@ -0,0 +1,610 @@
+// ============================================================
+// Vault Overlay - Simulate tool calls without touching the vault
+// ============================================================
+
+import {
+  App,
+  CachedMetadata,
+  FileManager,
+  MetadataCache,
+  TAbstractFile,
+  TFile,
+  TFolder,
+  Vault,
+  normalizePath,
+  parseYaml,
+  stringifyYaml,
+} from "obsidian";
+import type { CheckpointEntry, DryRunChange } from "../types";
+import { captureFileContent, ensureParentFolders } from "./checkpoints";
+
+/**
+ * State of one path in the overlay:
+ * - "file": text written during the run
+ * - "moved": a real file renamed here, content unchanged
+ * - "folder": created during the run
+ * - "deleted": a real file or folder removed during the run
+ */
+type OverlayEntry =
+  | { kind: "file"; content: string; mtime: number }
+  | { kind: "moved"; from: string; mtime: number }
+  | { kind: "folder" }
+  | { kind: "deleted" };
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n?---(?:\r?\n|$)/;
+
+function parentPath(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash < 0 ? "" : path.slice(0, slash);
+}
+
+function parseFrontmatter(content: string): Record<string, unknown> | null {
+  const match = FRONTMATTER_PATTERN.exec(content);
+  if (!match) return null;
+  try {
+    const data: unknown = parseYaml(match[1]);
+    return data && typeof data === "object" && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : {};
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An in-memory layer over the vault for dry runs. `app` is handed to
+ * tools in place of the real app: its vault, file manager and metadata
+ * cache read through the overlay and write only to it. Tools that use
+ * their own indexes (full-text and semantic search) still see the real
+ * vault. Link lookups follow renames and deletions made during the run
+ * and resolve links to new notes, but links in text written during the
+ * run are not parsed: link lists and backlinks show them as they were.
+ */
+export class VaultOverlay {
+  readonly app: App;
+  private entries = new Map<string, OverlayEntry>();
+  /** Path after a rename -> real path the file came from */
+  private origins = new Map<string, string>();
+
+  constructor(private real: App) {
+    const vault = Object.create(real.vault) as Vault;
+    Object.assign(vault, {
+      getAbstractFileByPath: (path: string) =>
+        this.resolve(normalizeOverlayPath(path)),
+      getRoot: () => this.folder(""),
+      getFiles: () => this.allFiles(),
+      getMarkdownFiles: () =>
+        this.allFiles().filter((file) => file.extension === "md"),
+      read: (file: TFile) => this.readPath(file.path),
+      cachedRead: (file: TFile) => this.readPath(file.path),
+      modify: (file: TFile, data: string) => {
+        this.write(file.path, data);
+        return Promise.resolve();
+      },
+      create: (path: string, data: string) =>
+        Promise.resolve(this.create(normalizeOverlayPath(path), data)),
+      createFolder: (path: string) =>
+        Promise.resolve(this.createFolder(normalizeOverlayPath(path))),
+    });
+
+    const fileManager = Object.create(real.fileManager) as FileManager;
+    Object.assign(fileManager, {
+      renameFile: (file: TAbstractFile, newPath: string) => {
+        this.rename(file, normalizeOverlayPath(newPath));
+        return Promise.resolve();
+      },
+      trashFile: (file: TAbstractFile) => {
+        this.trash(file);
+        return Promise.resolve();
+      },
+      processFrontMatter: (
+        file: TFile,
+        fn: (frontmatter: Record<string, unknown>) => void
+      ) => this.processFrontMatter(file, fn),
+    });
+
+    const metadataCache = Object.create(real.metadataCache) as MetadataCache;
+    Object.assign(metadataCache, {
+      getFileCache: (file: TFile) => this.getFileCache(file),
+      getFirstLinkpathDest: (linkpath: string, sourcePath: string) =>
+        this.linkDest(linkpath, sourcePath),
+    });
+    Object.defineProperties(metadataCache, {
+      resolvedLinks: {
+        get: () => this.linkMap(real.metadataCache.resolvedLinks, true),
+      },
+      unresolvedLinks: {
+        get: () => this.linkMap(real.metadataCache.unresolvedLinks, false),
+      },
+    });
+
+    this.app = Object.create(real) as App;
+    Object.assign(this.app, { vault, fileManager, metadataCache });
+  }
+
+  /** Whether any tool changed something */
+  get isEmpty(): boolean {
+    return this.entries.size === 0;
+  }
+
+  /**
+   * What the run would change, in the order to apply it: new folders,
+   * renames, new files, edits, then deletions (deepest folders last).
+   */
+  async getChanges(): Promise<DryRunChange[]> {
+    const folders: DryRunChange[] = [];
+    const renamed: DryRunChange[] = [];
+    const created: DryRunChange[] = [];
+    const modified: DryRunChange[] = [];
+    const deleted: DryRunChange[] = [];
+    const movedAway = new Set(this.origins.values());
+
+    for (const [path, entry] of this.entries) {
+      const real = this.real.vault.getAbstractFileByPath(path);
+      const origin = this.origins.get(path);
+      switch (entry.kind) {
+        case "folder":
+          if (!(real instanceof TFolder)) {
+            folders.push({ kind: "created", path, isFolder: true, before: null, after: null });
+          }
+          break;
+        case "deleted":
+          if (real && !movedAway.has(path)) {
+            deleted.push({
+              kind: "deleted",
+              path,
+              isFolder: real instanceof TFolder,
+              before: real instanceof TFile ? await captureFileContent(this.real, real) : null,
+              after: null,
+            });
+          }
+          break;
+        case "moved":
+          if (origin) {
+            renamed.push({ kind: "renamed", path, oldPath: origin, isFolder: false, before: null, after: null });
+          }
+          break;
+        case "file": {
+          if (origin) {
+            const source = this.real.vault.getAbstractFileByPath(origin);
+            const before =
+              source instanceof TFile ? await captureFileContent(this.real, source) : null;
+            renamed.push({
+              kind: "renamed",
+              path,
+              oldPath: origin,
+              isFolder: false,
+              before,
+              after: before === entry.content ? null : entry.content,
+            });
+          } else if (real instanceof TFile) {
+            const before = await this.real.vault.read(real);
+            if (before !== entry.content) {
+              modified.push({ kind: "modified", path, isFolder: false, before, after: entry.content });
+            }
+          } else {
+            created.push({ kind: "created", path, isFolder: false, before: null, after: entry.content });
+          }
+          break;
+        }
+      }
+    }
+
+    const depth = (change: DryRunChange) => change.path.split("/").length;
+    folders.sort((a, b) => depth(a) - depth(b) || a.path.localeCompare(b.path));
+    deleted.sort(
+      (a, b) =>
+        Number(a.isFolder) - Number(b.isFolder) ||
+        depth(b) - depth(a) ||
+        a.path.localeCompare(b.path)
+    );
+    return [...folders, ...renamed, ...created, ...modified, ...deleted];
+  }
+
+  // --- Lookup ---
+
+  private resolve(path: string): TAbstractFile | null {
+    if (!path) return this.folder("");
+    const entry = this.entries.get(path);
+    if (entry?.kind === "deleted") return null;
+    if (entry?.kind === "folder") return this.folder(path);
+    if (entry) return this.virtualFile(path, entry);
+    if (this.hiddenByAncestor(path)) return null;
+    const real = this.real.vault.getAbstractFileByPath(path);
+    return real instanceof TFolder ? this.folder(path) : real;
+  }
+
+  private hiddenByAncestor(path: string): boolean {
+    for (let parent = parentPath(path); parent; parent = parentPath(parent)) {
+      if (this.entries.get(parent)?.kind === "deleted") return true;
+    }
+    return false;
+  }
+
+  private virtualFile(path: string, entry: OverlayEntry): TFile {
+    const source = this.real.vault.getAbstractFileByPath(
+      entry.kind === "moved" ? entry.from : (this.origins.get(path) ?? path)
+    );
+    const name = path.split("/").pop() ?? path;
+    const dot = name.lastIndexOf(".");
+    const now = Date.now();
+    const file = withPrototype(TFile.prototype);
+    Object.assign(file, {
+      path,
+      name,
+      basename: dot > 0 ? name.slice(0, dot) : name,
+      extension: dot > 0 ? name.slice(dot + 1) : "",
+      vault: this.app.vault,
+      parent: null,
+      stat: {
+        ctime: source instanceof TFile ? source.stat.ctime : now,
+        mtime: "mtime" in entry ? entry.mtime : now,
+        size:
+          entry.kind === "file"
+            ? entry.content.length
+            : source instanceof TFile
+              ? source.stat.size
+              : 0,
+      },
+    });
+    return file;
+  }
+
+  /** A folder whose children merge the real folder with the overlay */
+  private folder(path: string): TFolder {
+    const folder = withPrototype(TFolder.prototype);
+    Object.assign(folder, {
+      path: path || "/",
+      name: path.split("/").pop() ?? "",
+      vault: this.app.vault,
+      parent: null,
+      isRoot: () => !path,
+    });
+    Object.defineProperty(folder, "children", {
+      get: () => this.children(path),
+    });
+    return folder;
+  }
+
+  private children(path: string): TAbstractFile[] {
+    const childPaths = new Set<string>();
+    const real = path
+      ? this.real.vault.getAbstractFileByPath(path)
+      : this.real.vault.getRoot();
+    if (real instanceof TFolder) {
+      for (const child of real.children) childPaths.add(child.path);
+    }
+    for (const entryPath of this.entries.keys()) {
+      if (parentPath(entryPath) === path) childPaths.add(entryPath);
+    }
+    const children: TAbstractFile[] = [];
+    for (const childPath of childPaths) {
+      const child = this.resolve(childPath);
+      if (child) children.push(child);
+    }
+    return children;
+  }
+
+  private allFiles(): TFile[] {
+    const files: TFile[] = [];
+    const walk = (folder: TFolder) => {
+      for (const child of folder.children) {
+        if (child instanceof TFile) files.push(child);
+        else if (child instanceof TFolder) walk(child);
+      }
+    };
+    walk(this.folder(""));
+    return files;
+  }
+
+  private async readPath(path: string): Promise<string> {
+    const entry = this.entries.get(path);
+    if (entry?.kind === "file") return entry.content;
+    const source = this.real.vault.getAbstractFileByPath(
+      entry?.kind === "moved" ? entry.from : path
+    );
+    if (!(source instanceof TFile) || !this.resolve(path)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return await this.real.vault.read(source);
+  }
+
+  private getFileCache(file: TFile): CachedMetadata | null {
+    const entry = this.entries.get(file.path);
+    if (!entry) return this.real.metadataCache.getFileCache(file);
+    if (entry.kind === "moved") {
+      const source = this.real.vault.getAbstractFileByPath(entry.from);
+      return source instanceof TFile
+        ? this.real.metadataCache.getFileCache(source)
+        : null;
+    }
+    if (entry.kind !== "file") return null;
+    // Only properties are known for text written during the run;
+    // heading-based tools parse the text themselves
+    const frontmatter = parseFrontmatter(entry.content);
+    return frontmatter ? { frontmatter } : {};
+  }
+
+  // --- Links ---
+
+  /** Where a real file is now, or null if it was deleted */
+  private currentPath(realPath: string): string | null {
+    for (const [path, origin] of this.origins) {
+      if (origin === realPath) return this.resolve(path) ? path : null;
+    }
+    return this.resolve(realPath) ? realPath : null;
+  }
+
+  /** The real link map with moved sources and targets renamed, deleted sources dropped */
+  private linkMap(
+    links: Record<string, Record<string, number>>,
+    remapTargets: boolean
+  ): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    for (const [source, targets] of Object.entries(links)) {
+      const from = this.currentPath(source);
+      if (!from) continue;
+      const mapped: Record<string, number> = {};
+      for (const [target, count] of Object.entries(targets)) {
+        const to = remapTargets ? this.currentPath(target) : target;
+        if (to) mapped[to] = (mapped[to] ?? 0) + count;
+      }
+      result[from] = mapped;
+    }
+    return result;
+  }
+
+  private linkDest(linkpath: string, sourcePath: string): TFile | null {
+    const real = this.real.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      this.origins.get(sourcePath) ?? sourcePath
+    );
+    if (real) {
+      const path = this.currentPath(real.path);
+      const file = path ? this.resolve(path) : null;
+      if (file instanceof TFile) return file;
+    }
+    // A note created or moved during the run, matched by path or name
+    const wanted = normalizePath(linkpath).toLowerCase();
+    for (const [path, entry] of this.entries) {
+      if (entry.kind !== "file" && entry.kind !== "moved") continue;
+      const lower = path.toLowerCase();
+      if (
+        [wanted, `${wanted}.md`].some(
+          (name) => lower === name || lower.endsWith(`/${name}`)
+        )
+      ) {
+        const file = this.resolve(path);
+        if (file instanceof TFile) return file;
+      }
+    }
+    return null;
+  }
+
+  // --- Mutations ---
+
+  private write(path: string, content: string): void {
+    if (!(this.resolve(path) instanceof TFile)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    this.entries.set(path, { kind: "file", content, mtime: Date.now() });
+  }
+
+  private create(path: string, content: string): TFile {
+    if (this.resolve(path)) throw new Error("File already exists.");
+    this.addMissingFolders(path);
+    this.entries.set(path, { kind: "file", content, mtime: Date.now() });
+    const file = this.resolve(path);
+    if (!(file instanceof TFile)) throw new Error(`Could not create ${path}`);
+    return file;
+  }
+
+  private addMissingFolders(path: string): void {
+    for (let parent = parentPath(path); parent; parent = parentPath(parent)) {
+      if (this.resolve(parent)) break;
+      this.entries.set(parent, { kind: "folder" });
+    }
+  }
+
+  private createFolder(path: string): TFolder {
+    if (this.resolve(path)) throw new Error("Folder already exists.");
+    this.entries.set(path, { kind: "folder" });
+    return this.folder(path);
+  }
+
+  /** Make `path` disappear: mark real files deleted, forget overlay-only ones */
+  private remove(path: string): void {
+    if (this.real.vault.getAbstractFileByPath(path)) {
+      this.entries.set(path, { kind: "deleted" });
+    } else {
+      this.entries.delete(path);
+    }
+    this.origins.delete(path);
+  }
+
+  private trash(file: TAbstractFile): void {
+    const path = normalizeOverlayPath(file.path);
+    if (file instanceof TFolder) {
+      for (const entryPath of [...this.entries.keys()]) {
+        if (entryPath.startsWith(`${path}/`)) this.remove(entryPath);
+      }
+    }
+    this.remove(path);
+  }
+
+  private rename(file: TAbstractFile, newPath: string): void {
+    const oldPath = normalizeOverlayPath(file.path);
+    if (this.resolve(newPath)) {
+      throw new Error("Destination file already exists!");
+    }
+    if (!(file instanceof TFolder)) {
+      this.moveFile(oldPath, newPath);
+      return;
+    }
+
+    // Collect first: moving changes what the folder lists
+    const descendants: TAbstractFile[] = [];
+    const walk = (folder: TFolder) => {
+      for (const child of folder.children) {
+        descendants.push(child);
+        if (child instanceof TFolder) walk(child);
+      }
+    };
+    walk(this.folder(oldPath));
+
+    this.entries.set(newPath, { kind: "folder" });
+    for (const child of descendants) {
+      const target = newPath + child.path.slice(oldPath.length);
+      if (child instanceof TFolder) {
+        this.entries.set(target, { kind: "folder" });
+      } else {
+        this.moveFile(child.path, target);
+      }
+    }
+    for (const child of descendants.reverse()) {
+      if (child instanceof TFolder) this.remove(child.path);
+    }
+    this.remove(oldPath);
+  }
+
+  private moveFile(from: string, to: string): void {
+    const entry = this.entries.get(from);
+    const origin =
+      this.origins.get(from) ??
+      (entry?.kind === "moved"
+        ? entry.from
+        : this.real.vault.getAbstractFileByPath(from) instanceof TFile
+          ? from
+          : undefined);
+    const mtime = Date.now();
+    this.remove(from);
+
+    if (entry?.kind === "file") {
+      this.entries.set(to, { kind: "file", content: entry.content, mtime });
+    } else if (origin && origin !== to) {
+      this.entries.set(to, { kind: "moved", from: origin, mtime });
+    } else {
+      // Moved back to where it started, unchanged
+      this.entries.delete(to);
+    }
+    if (origin && origin !== to) this.origins.set(to, origin);
+  }
+
+  private async processFrontMatter(
+    file: TFile,
+    fn: (frontmatter: Record<string, unknown>) => void
+  ): Promise<void> {
+    const content = await this.readPath(file.path);
+    const match = FRONTMATTER_PATTERN.exec(content);
+    const frontmatter = parseFrontmatter(content) ?? {};
+    fn(frontmatter);
+    const body = match ? content.slice(match[0].length) : content;
+    const block =
+      Object.keys(frontmatter).length > 0
+        ? `---\n${stringifyYaml(frontmatter)}---\n`
+        : "";
+    this.write(file.path, block + body);
+  }
+}
+
+/** An empty object that passes `instanceof` checks for the prototype's class */
+function withPrototype<T extends object>(prototype: T): T {
+  return Object.create(prototype) as T;
+}
+
+function normalizeOverlayPath(path: string): string {
+  return path === "/" || !path ? "" : normalizePath(path);
+}
+
+function describeChange(change: DryRunChange): string {
+  return change.kind === "renamed"
+    ? `${change.oldPath ?? "?"} -> ${change.path}`
+    : change.path;
+}
+
+/**
+ * Carry out dry-run changes on the real vault, recording each mutation so
+ * the result can be reverted like a normal turn. Edits are skipped if the
+ * file changed since the dry run. Returns the failure messages.
+ */
+export async function applyDryRunChanges(
+  app: App,
+  changes: DryRunChange[],
+  checkpoint: CheckpointEntry[]
+): Promise<string[]> {
+  const failures: string[] = [];
+  for (const change of changes) {
+    try {
+      await applyChange(app, change, checkpoint);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      failures.push(`${describeChange(change)}: ${errorMsg}`);
+    }
+  }
+  return failures;
+}
+
+async function applyChange(
+  app: App,
+  change: DryRunChange,
+  checkpoint: CheckpointEntry[]
+): Promise<void> {
+  const path = normalizePath(change.path);
+  const existing = app.vault.getAbstractFileByPath(path);
+  const assertUnchanged = (current: string) => {
+    if (change.before !== null && current !== change.before) {
+      throw new Error("the file changed since the dry run");
+    }
+  };
+
+  switch (change.kind) {
+    case "created": {
+      // Already made while applying an earlier change inside it
+      if (change.isFolder && existing instanceof TFolder) return;
+      if (existing) throw new Error("it already exists");
+      await ensureParentFolders(app, path, checkpoint);
+      if (change.isFolder) {
+        await app.vault.createFolder(path);
+      } else {
+        await app.vault.create(path, change.after ?? "");
+      }
+      checkpoint.push({ kind: "created", path, isFolder: change.isFolder });
+      return;
+    }
+    case "modified": {
+      if (!(existing instanceof TFile)) throw new Error("file not found");
+      const current = await app.vault.read(existing);
+      assertUnchanged(current);
+      await app.vault.modify(existing, change.after ?? "");
+      checkpoint.push({ kind: "modified", path, previousContent: current });
+      return;
+    }
+    case "renamed": {
+      const oldPath = normalizePath(change.oldPath ?? "");
+      const source = app.vault.getAbstractFileByPath(oldPath);
+      if (!(source instanceof TFile)) throw new Error(`file not found: ${oldPath}`);
+      if (existing) throw new Error("the destination already exists");
+      if (change.after !== null) assertUnchanged(await app.vault.read(source));
+      await ensureParentFolders(app, path, checkpoint);
+      await app.fileManager.renameFile(source, path);
+      checkpoint.push({ kind: "renamed", oldPath, newPath: path });
+      if (change.after !== null) {
+        const moved = app.vault.getAbstractFileByPath(path);
+        if (!(moved instanceof TFile)) throw new Error("file not found after renaming");
+        const previousContent = await app.vault.read(moved);
+        await app.vault.modify(moved, change.after);
+        checkpoint.push({ kind: "modified", path, previousContent });
+      }
+      return;
+    }
+    case "deleted": {
+      // Already gone, e.g. moved out by an earlier change
+      if (!existing) return;
+      const previousContent =
+        existing instanceof TFile ? await captureFileContent(app, existing) : null;
+      await app.fileManager.trashFile(existing);
+      checkpoint.push({ kind: "deleted", path, previousContent });
+      return;
+    }
+  }
+}
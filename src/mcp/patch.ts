@@ -0,0 +1,451 @@
+// ============================================================
+// Patch Tool - Apply many edits to many files in one call
+// ============================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import type { CheckpointEntry } from "../types";
+import { tokenize } from "../search/fullText";
+import { ensureParentFolders, revertEntry } from "./checkpoints";
+import type { PathPolicy } from "./pathPolicy";
+import type { RegisteredTool } from "./registry";
+
+/** Lines shown on each side of the closest match for a failed change */
+const CONTEXT_RADIUS = 2;
+
+/** A search/replace edit from the `edits` argument */
+interface TextEdit {
+  kind: "edit";
+  oldText: string;
+  newText: string;
+  replaceAll: boolean;
+}
+
+/** A hunk from the unified diff */
+interface PatchHunk {
+  kind: "hunk";
+  header: string;
+  /** 0-indexed line the hunk expects to start at */
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+type Change = TextEdit | PatchHunk;
+
+interface FilePatch {
+  path: string;
+  /** The diff creates the file (`--- /dev/null`) */
+  create: boolean;
+  changes: Change[];
+}
+
+export function getPatchTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_apply_patch",
+          description:
+            "Apply several changes to one or more files in a single call, either as a list of search/replace edits or as a unified diff. All-or-nothing: if any edit or hunk does not match, no file is changed and the result lists which ones failed, with the closest matching lines. Prefer this over repeated vault_edit_file calls.",
+          parameters: {
+            type: "object",
+            properties: {
+              edits: {
+                type: "array",
+                description:
+                  "Search/replace edits, applied in order. Each oldText must match exactly once unless replaceAll is set.",
+                items: {
+                  type: "object",
+                  properties: {
+                    path: {
+                      type: "string",
+                      description: "File path relative to vault root.",
+                    },
+                    oldText: {
+                      type: "string",
+                      description: "Exact text to replace.",
+                    },
+                    newText: {
+                      type: "string",
+                      description: "Replacement text.",
+                    },
+                    replaceAll: {
+                      type: "boolean",
+                      description:
+                        "Replace every occurrence. Default false.",
+                    },
+                  },
+                  required: ["path", "oldText", "newText"],
+                },
+              },
+              patch: {
+                type: "string",
+                description:
+                  "Unified diff with ---/+++ file headers (paths relative to vault root; a/ and b/ prefixes are ignored) and @@ hunks. Use --- /dev/null to create a file.",
+              },
+            },
+            required: [],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint, pathPolicy }) =>
+        applyPatch(app, args, checkpoint, pathPolicy),
+      risk: "write",
+      category: "Files",
+      summary: "Apply multiple edits or a diff atomically",
+      source: "builtin",
+    },
+  ];
+}
+
+// --- Parsing ---
+
+function parseEdits(raw: unknown): FilePatch[] | string {
+  if (!Array.isArray(raw)) return "Error: edits must be a list";
+  const patches: FilePatch[] = [];
+  for (const [i, item] of (raw as unknown[]).entries()) {
+    const edit = item as Record<string, unknown>;
+    if (typeof edit !== "object" || edit === null) {
+      return `Error: edit ${i + 1} is not an object`;
+    }
+    if (typeof edit.path !== "string" || !edit.path) {
+      return `Error: edit ${i + 1} requires a path`;
+    }
+    if (typeof edit.oldText !== "string" || !edit.oldText) {
+      return `Error: edit ${i + 1} requires oldText`;
+    }
+    if (typeof edit.newText !== "string") {
+      return `Error: edit ${i + 1} requires newText`;
+    }
+    const path = normalizePath(edit.path);
+    let patch = patches.find((p) => p.path === path);
+    if (!patch) {
+      patch = { path, create: false, changes: [] };
+      patches.push(patch);
+    }
+    patch.changes.push({
+      kind: "edit",
+      oldText: edit.oldText,
+      newText: edit.newText,
+      replaceAll: edit.replaceAll === true,
+    });
+  }
+  return patches;
+}
+
+function diffPath(header: string): string | null {
+  const path = header.replace(/\t.*$/, "").trim();
+  if (path === "/dev/null") return null;
+  return normalizePath(path.replace(/^[ab]\//, ""));
+}
+
+/** Parse a unified diff into per-file hunks. */
+function parseUnifiedDiff(text: string): FilePatch[] | string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+  // Line counts from the current hunk header
+  let oldCount = 0;
+  let newCount = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = diffPath(line.slice(4));
+      const newPath = diffPath(lines[i + 1].slice(4));
+      if (!newPath) {
+        return "Error: deleting files is not supported by vault_apply_patch; use vault_delete_file";
+      }
+      if (oldPath && oldPath !== newPath) {
+        return `Error: renames are not supported (${oldPath} -> ${newPath}); use vault_rename_file first`;
+      }
+      current = { path: newPath, create: oldPath === null, changes: [] };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/.exec(line);
+    if (header) {
+      if (!current) return `Error: hunk before any file header: ${line}`;
+      oldCount = header[2] === undefined ? 1 : parseInt(header[2], 10);
+      newCount = header[3] === undefined ? 1 : parseInt(header[3], 10);
+      hunk = {
+        kind: "hunk",
+        header: header[0],
+        oldStart: Math.max(0, parseInt(header[1], 10) - 1),
+        oldLines: [],
+        newLines: [],
+      };
+      current.changes.push(hunk);
+      continue;
+    }
+
+    if (!hunk) continue; // diff --git, index and other preamble lines
+    if (line.startsWith("\\")) continue; // "\ No newline at end of file"
+    if (
+      i === lines.length - 1 &&
+      line === "" &&
+      hunk.oldLines.length >= oldCount &&
+      hunk.newLines.length >= newCount
+    ) {
+      // Left by the patch text's final newline; the hunk is already complete
+      continue;
+    }
+    const marker = line[0];
+    const body = line.slice(1);
+    if (marker === "-") {
+      hunk.oldLines.push(body);
+    } else if (marker === "+") {
+      hunk.newLines.push(body);
+    } else if (marker === " " || line === "") {
+      // Models often drop the leading space of empty context lines
+      hunk.oldLines.push(body);
+      hunk.newLines.push(body);
+    } else {
+      hunk = null;
+    }
+  }
+
+  if (patches.length === 0) return "Error: patch contains no file headers (--- / +++)";
+  const empty = patches.find((p) => p.changes.length === 0);
+  if (empty) return `Error: patch has no hunks for ${empty.path}`;
+  return patches;
+}
+
+// --- Applying ---
+
+/** The lines around the best guess for where `probe` was meant to match */
+function nearbyContext(lines: string[], probe: string, hint?: number): string {
+  const target = probe.split("\n").find((l) => l.trim())?.trim() ?? "";
+  let best = -1;
+  if (target) {
+    best = lines.findIndex((l) => l.trim() === target);
+    if (best < 0) best = lines.findIndex((l) => l.includes(target));
+    if (best < 0) {
+      // Fall back to the line sharing the most words
+      const wanted = new Set(tokenize(target));
+      let bestScore = 0;
+      lines.forEach((l, i) => {
+        const score = tokenize(l).filter((t) => wanted.has(t)).length;
+        if (score > bestScore) {
+          bestScore = score;
+          best = i;
+        }
+      });
+    }
+  }
+  if (best < 0) best = Math.min(hint ?? 0, Math.max(0, lines.length - 1));
+  if (lines.length === 0) return "    (file is empty)";
+
+  const start = Math.max(0, best - CONTEXT_RADIUS);
+  const end = Math.min(lines.length, best + CONTEXT_RADIUS + 1);
+  return lines
+    .slice(start, end)
+    .map((l, i) => `    L${start + i + 1}: ${l}`)
+    .join("\n");
+}
+
+function blockMatches(lines: string[], block: string[], at: number): boolean {
+  if (at < 0 || at + block.length > lines.length) return false;
+  return block.every((l, i) => lines[at + i] === l);
+}
+
+/** Position of `block` in `lines` at or after `from`, nearest to `hint` */
+function findBlock(
+  lines: string[],
+  block: string[],
+  hint: number,
+  from: number
+): number {
+  const maxDistance = Math.max(hint, lines.length - hint);
+  for (let d = 0; d <= maxDistance; d++) {
+    if (hint - d >= from && blockMatches(lines, block, hint - d)) return hint - d;
+    if (d > 0 && hint + d >= from && blockMatches(lines, block, hint + d)) {
+      return hint + d;
+    }
+  }
+  return -1;
+}
+
+function countOccurrences(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+interface FileResult {
+  content: string;
+  report: string[];
+  failed: number;
+}
+
+function applyChanges(original: string, patch: FilePatch): FileResult {
+  // Work on LF text and restore the file's line endings afterwards
+  const crlf = original.includes("\r\n");
+  let content = crlf ? original.replace(/\r\n/g, "\n") : original;
+  const report: string[] = [];
+  let failed = 0;
+  /** Shift of later hunk positions caused by earlier hunks */
+  let delta = 0;
+  /** Hunks must apply in order, after the previous one */
+  let minLine = 0;
+
+  patch.changes.forEach((change, i) => {
+    const label = `${patch.path} ${change.kind === "hunk" ? `hunk ${i + 1} ${change.header}` : `edit ${i + 1}`}`;
+    if (change.kind === "edit") {
+      const oldText = change.oldText.replace(/\r\n/g, "\n");
+      const newText = change.newText.replace(/\r\n/g, "\n");
+      const count = countOccurrences(content, oldText);
+      if (count === 0) {
+        failed++;
+        report.push(
+          `[failed] ${label}: oldText not found. Closest lines:\n${nearbyContext(content.split("\n"), oldText)}`
+        );
+      } else if (count > 1 && !change.replaceAll) {
+        failed++;
+        report.push(
+          `[failed] ${label}: oldText matches ${count} times; include more surrounding text or set replaceAll`
+        );
+      } else {
+        content = content.split(oldText).join(newText);
+        report.push(`[ok] ${label}: replaced ${count} occurrence(s)`);
+      }
+      return;
+    }
+
+    const lines = content.split("\n");
+    const expected = change.oldStart + delta;
+    const hint = Math.min(expected, lines.length);
+    // A pure insertion into an empty file has nothing to locate
+    const at =
+      change.oldLines.length === 0
+        ? Math.max(hint, minLine)
+        : findBlock(lines, change.oldLines, hint, minLine);
+    if (at < 0) {
+      failed++;
+      report.push(
+        `[failed] ${label}: lines not found. Expected near line ${change.oldStart + 1}; closest lines:\n${nearbyContext(lines, change.oldLines.join("\n"), hint)}`
+      );
+      return;
+    }
+    lines.splice(at, change.oldLines.length, ...change.newLines);
+    content = lines.join("\n");
+    delta += change.newLines.length - change.oldLines.length;
+    minLine = at + change.newLines.length;
+    const offset = at - expected;
+    report.push(
+      `[ok] ${label}: applied at line ${at + 1}${offset !== 0 ? ` (offset ${offset > 0 ? "+" : ""}${offset})` : ""}`
+    );
+  });
+
+  return {
+    content: crlf ? content.replace(/\n/g, "\r\n") : content,
+    report,
+    failed,
+  };
+}
+
+async function applyPatch(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[],
+  pathPolicy: PathPolicy
+): Promise<string> {
+  if (args.edits === undefined && typeof args.patch !== "string") {
+    return "Error: provide edits or patch";
+  }
+
+  const patches: FilePatch[] = [];
+  if (args.edits !== undefined) {
+    const parsed = parseEdits(args.edits);
+    if (typeof parsed === "string") return parsed;
+    patches.push(...parsed);
+  }
+  if (typeof args.patch === "string" && args.patch.trim()) {
+    const parsed = parseUnifiedDiff(args.patch);
+    if (typeof parsed === "string") return parsed;
+    patches.push(...parsed);
+  }
+  if (patches.length === 0) return "Error: no changes given";
+  // The paths come from inside the patch, so the engine cannot check them
+  // up front; throw so the call is recorded as failed
+  for (const patch of patches) {
+    const denied = pathPolicy.check(patch.path, "write");
+    if (denied) throw new Error(denied.replace(/^Error: /, ""));
+  }
+
+  // Compute every result in memory first so a failure changes nothing
+  const planned: { patch: FilePatch; file: TFile | null; before: string; after: string }[] = [];
+  const report: string[] = [];
+  let failed = 0;
+  let total = 0;
+  for (const patch of patches) {
+    total += patch.changes.length;
+    const existing = app.vault.getAbstractFileByPath(patch.path);
+    const earlier = planned.find((p) => p.patch.path === patch.path);
+    let file: TFile | null = null;
+    let before = "";
+    if (earlier) {
+      // The same file in both edits and patch: continue from the edits
+      file = earlier.file;
+      before = earlier.after;
+    } else if (existing instanceof TFile) {
+      if (patch.create) {
+        failed += patch.changes.length;
+        report.push(`[failed] ${patch.path}: the diff creates this file, but it already exists`);
+        continue;
+      }
+      file = existing;
+      before = await app.vault.read(existing);
+    } else if (existing) {
+      failed += patch.changes.length;
+      report.push(`[failed] ${patch.path}: is a folder`);
+      continue;
+    } else if (!patch.create) {
+      failed += patch.changes.length;
+      report.push(`[failed] ${patch.path}: file not found`);
+      continue;
+    }
+
+    const result = applyChanges(before, patch);
+    report.push(...result.report);
+    failed += result.failed;
+    if (earlier) earlier.after = result.content;
+    else planned.push({ patch, file, before, after: result.content });
+  }
+
+  if (failed > 0) {
+    return `Error: Patch not applied: ${failed} of ${total} change(s) failed. No files were changed.\n${report.join("\n")}`;
+  }
+
+  const entries: CheckpointEntry[] = [];
+  try {
+    for (const { patch, file, before, after } of planned) {
+      if (file) {
+        if (after === before) continue;
+        await app.vault.modify(file, after);
+        entries.push({ kind: "modified", path: file.path, previousContent: before });
+      } else {
+        await ensureParentFolders(app, patch.path, entries);
+        await app.vault.create(patch.path, after);
+        entries.push({ kind: "created", path: patch.path, isFolder: false });
+      }
+    }
+  } catch (err) {
+    // Undo the files already written to keep the patch all-or-nothing
+    for (const entry of [...entries].reverse()) {
+      try {
+        await revertEntry(app, entry);
+      } catch {
+        // Keep it in the checkpoint so reverting the turn can retry
+        checkpoint.push(entry);
+      }
+    }
+    return `Error: Writing the patch failed and was rolled back: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  checkpoint.push(...entries);
+
+  return `Patch applied to ${planned.length} file(s), ${total} change(s):\n${report.join("\n")}`;
+}
@@ -0,0 +1,200 @@
+// ============================================================
+// Path Policy - Which vault paths tools may read and change
+// ============================================================
+
+import { App, TFolder, normalizePath } from "obsidian";
+import type { PathPolicyRules } from "../types";
+
+export type PathAccess = "read" | "write";
+
+/** Folders no tool may touch, whatever the rules say */
+const TRASH_FOLDER = ".trash";
+
+const OUTSIDE_ALLOWED = "is outside the allowed paths";
+
+/**
+ * Convert a glob to a regular expression: "**" spans folders, "*" and
+ * "?" stay within one path segment. Matching ignores case so rules hold
+ * on case-insensitive file systems.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = normalizeRulePath(glob);
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      // "**/" may also match no folders at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function normalizeRulePath(path: string): string {
+  const trimmed = path.trim().replace(/^\/+|\/+$/g, "");
+  return trimmed ? normalizePath(trimmed) : "";
+}
+
+/** `path` followed by each of its parent folders */
+function selfAndAncestors(path: string): string[] {
+  const parts = path.split("/");
+  const paths: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    paths.push(parts.slice(0, i).join("/"));
+  }
+  return paths;
+}
+
+interface CompiledRule {
+  glob: string;
+  regex: RegExp;
+}
+
+function compile(globs: string[]): CompiledRule[] {
+  return globs
+    .map((glob) => glob.trim())
+    .filter((glob) => normalizeRulePath(glob).length > 0)
+    .map((glob) => ({ glob, regex: globToRegExp(glob) }));
+}
+
+/** The first rule matching `path` or one of its parent folders */
+function firstMatch(rules: CompiledRule[], path: string): CompiledRule | undefined {
+  const candidates = selfAndAncestors(path);
+  return rules.find((rule) => candidates.some((c) => rule.regex.test(c)));
+}
+
+/**
+ * Checks tool access to vault paths against the user's allow, deny and
+ * read-only globs. The config folder (with plugin data such as tokens)
+ * and the trash are always denied.
+ */
+export class PathPolicy {
+  private cache = new Map<string[], CompiledRule[]>();
+
+  constructor(
+    private app: App,
+    private getRules: () => PathPolicyRules
+  ) {}
+
+  /**
+   * Null if tools may access `path` this way, otherwise an error for the
+   * model. The vault root is always readable so it can be listed; its
+   * entries are filtered with `canRead`. Writing to a folder requires
+   * write access to everything inside it.
+   */
+  check(path: string, access: PathAccess): string | null {
+    const normalized = normalizeRulePath(path);
+    if (!normalized) {
+      return access === "read"
+        ? null
+        : "Error: Access denied by policy: the vault root cannot be changed";
+    }
+
+    const reason = this.denial(normalized, access);
+    if (!reason) {
+      const file = this.app.vault.getAbstractFileByPath(normalized);
+      if (access === "write" && file instanceof TFolder) {
+        const blocked = this.firstBlockedDescendant(file);
+        if (blocked) {
+          return `Error: Access denied by policy: ${normalized} contains ${blocked.path}, which ${blocked.reason}`;
+        }
+      }
+      return null;
+    }
+
+    // A folder outside the allow-list may still lead to allowed notes
+    if (access === "read" && reason === OUTSIDE_ALLOWED) {
+      const file = this.app.vault.getAbstractFileByPath(normalized);
+      if (file instanceof TFolder && this.hasReadableDescendant(file)) return null;
+    }
+    return `Error: Access denied by policy: ${normalized} ${reason}`;
+  }
+
+  canRead(path: string): boolean {
+    const normalized = normalizeRulePath(path);
+    return !normalized || this.denial(normalized, "read") === null;
+  }
+
+  canWrite(path: string): boolean {
+    return this.check(path, "write") === null;
+  }
+
+  /** Why `path` itself may not be accessed, or null */
+  private denial(path: string, access: PathAccess): string | null {
+    const root = path.split("/")[0].toLowerCase();
+    if (
+      root === this.app.vault.configDir.toLowerCase() ||
+      root === TRASH_FOLDER
+    ) {
+      return "is in a protected folder";
+    }
+    const rules = this.rules();
+    const denied = firstMatch(rules.deny, path);
+    if (denied) return `matches the deny rule "${denied.glob}"`;
+    if (rules.allow.length > 0 && !firstMatch(rules.allow, path)) {
+      return OUTSIDE_ALLOWED;
+    }
+    if (access === "write") {
+      const readOnly = firstMatch(rules.readOnly, path);
+      if (readOnly) return `is read-only (rule "${readOnly.glob}")`;
+    }
+    return null;
+  }
+
+  private firstBlockedDescendant(
+    folder: TFolder
+  ): { path: string; reason: string } | null {
+    for (const child of folder.children) {
+      const reason = this.denial(child.path, "write");
+      if (reason) return { path: child.path, reason };
+      if (child instanceof TFolder) {
+        const blocked = this.firstBlockedDescendant(child);
+        if (blocked) return blocked;
+      }
+    }
+    return null;
+  }
+
+  private hasReadableDescendant(folder: TFolder): boolean {
+    return folder.children.some(
+      (child) =>
+        this.denial(child.path, "read") === null ||
+        (child instanceof TFolder && this.hasReadableDescendant(child))
+    );
+  }
+
+  /** Compiled rules; settings replace a list when it is edited */
+  private rules(): Record<keyof PathPolicyRules, CompiledRule[]> {
+    const source = this.getRules();
+    const lists = [source.allow, source.deny, source.readOnly];
+    for (const list of this.cache.keys()) {
+      if (!lists.includes(list)) this.cache.delete(list);
+    }
+    const compiled = (list: string[]) => {
+      let rules = this.cache.get(list);
+      if (!rules) {
+        rules = compile(list);
+        this.cache.set(list, rules);
+      }
+      return rules;
+    };
+    return {
+      allow: compiled(source.allow),
+      deny: compiled(source.deny),
+      readOnly: compiled(source.readOnly),
+    };
+  }
+}
+
@@ -0,0 +1,450 @@
+// ============================================================
+// Query Tool - Filter notes by tags, properties, folder and dates
+// ============================================================
+
+import { App, TFile, getAllTags, normalizePath } from "obsidian";
+import type { CachedMetadata } from "obsidian";
+import { pageFooter } from "./output";
+import type { PathPolicy } from "./pathPolicy";
+import type { RegisteredTool } from "./registry";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ConditionOp =
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "exists"
+  | "notExists"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between";
+
+const CONDITION_OPS: ConditionOp[] = [
+  "equals",
+  "notEquals",
+  "contains",
+  "exists",
+  "notExists",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "between",
+];
+
+interface PropertyCondition {
+  property: string;
+  op: ConditionOp;
+  value?: unknown;
+  /** Upper bound for "between" */
+  max?: unknown;
+}
+
+interface NoteRecord {
+  file: TFile;
+  tags: string[];
+  frontmatter: Record<string, unknown>;
+}
+
+const dateDescription =
+  'ISO date (e.g. "2025-03-01"), "today", or an offset from now such as "-7d" or "+2w".';
+
+export function getQueryTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_query_notes",
+          description:
+            "Find Markdown notes by tags, frontmatter properties, folder and created/modified dates, with sorting and pagination. Use this for structured questions such as \"open projects tagged #client due this week\"; use vault_search for text in note bodies.",
+          parameters: {
+            type: "object",
+            properties: {
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  'Tags to match, with or without "#". A tag also matches its nested tags: "project" matches #project/client.',
+              },
+              tagMode: {
+                type: "string",
+                enum: ["all", "any"],
+                description:
+                  'Require all tags (default) or any of them.',
+              },
+              excludeTags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Skip notes with any of these tags.",
+              },
+              where: {
+                type: "array",
+                description:
+                  "Frontmatter conditions, all of which must hold. List properties match if any item matches. Dates and numbers are compared by value.",
+                items: {
+                  type: "object",
+                  properties: {
+                    property: { type: "string" },
+                    op: { type: "string", enum: CONDITION_OPS },
+                    value: {
+                      description: `Value to compare with; lower bound for between. Dates may be ${dateDescription}`,
+                    },
+                    max: { description: "Upper bound for between." },
+                  },
+                  required: ["property", "op"],
+                },
+              },
+              folder: {
+                type: "string",
+                description: "Only notes in this folder (recursively).",
+              },
+              modifiedAfter: { type: "string", description: dateDescription },
+              modifiedBefore: { type: "string", description: dateDescription },
+              createdAfter: { type: "string", description: dateDescription },
+              createdBefore: { type: "string", description: dateDescription },
+              sortBy: {
+                type: "string",
+                description:
+                  'Sort by "path" (default), "modified", "created", "size", or any frontmatter property name.',
+              },
+              sortOrder: {
+                type: "string",
+                enum: ["asc", "desc"],
+                description: "Default asc.",
+              },
+              fields: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Frontmatter properties to include for each result. Default: properties used in the query.",
+              },
+              limit: {
+                type: "number",
+                description: `Maximum results (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT}).`,
+              },
+              offset: {
+                type: "number",
+                description: "Number of results to skip, for pagination.",
+              },
+            },
+            required: [],
+          },
+        },
+      },
+      handler: (args, { app, pathPolicy }) => queryNotes(app, args, pathPolicy),
+      risk: "read",
+      category: "Search",
+      summary: "Find notes by tags, properties and dates",
+      source: "builtin",
+      pathArgs: ["folder"],
+    },
+  ];
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+function stringList(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : [];
+}
+
+function hasTag(noteTags: string[], tag: string): boolean {
+  return noteTags.some((t) => t === tag || t.startsWith(`${tag}/`));
+}
+
+/**
+ * Parse an ISO date, "today", or a relative offset like "-7d", "+2w",
+ * "-1m" (months) or "+1y". Returns a timestamp, or null if not a date.
+ */
+function parseDate(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+  const now = new Date();
+  if (text === "today" || text === "now") {
+    return text === "now"
+      ? now.getTime()
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  }
+
+  const relative = /^([+-]\d+)([dwmy])$/.exec(text);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    switch (relative[2]) {
+      case "d":
+        return date.getTime() + amount * DAY_MS;
+      case "w":
+        return date.getTime() + amount * 7 * DAY_MS;
+      case "m":
+        date.setMonth(date.getMonth() + amount);
+        return date.getTime();
+      case "y":
+        date.setFullYear(date.getFullYear() + amount);
+        return date.getTime();
+    }
+  }
+
+  // Only ISO-like strings, so "3" or "draft" are not read as dates
+  if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null;
+  // Date-only values are local midnight, like "today"; `new Date` would
+  // read them as UTC midnight and shift them a day in some time zones
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    return new Date(year, month - 1, day).getTime();
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/** Compare two property values: numbers, then dates, then strings. */
+function compareValues(a: unknown, b: unknown): number | null {
+  if (typeof a === "number" || typeof b === "number") {
+    const x = Number(a);
+    const y = Number(b);
+    if (!Number.isNaN(x) && !Number.isNaN(y)) return x - y;
+  }
+  const dateA = parseDate(a);
+  const dateB = parseDate(b);
+  if (dateA !== null && dateB !== null) return dateA - dateB;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+  const strA = typeof a === "string" ? a : JSON.stringify(a);
+  const strB = typeof b === "string" ? b : JSON.stringify(b);
+  return strA.localeCompare(strB, undefined, { sensitivity: "base" });
+}
+
+function matchesScalar(actual: unknown, cond: PropertyCondition): boolean {
+  const cmp = compareValues(actual, cond.value);
+  switch (cond.op) {
+    case "equals":
+      return cmp === 0;
+    case "contains":
+      if (typeof actual !== "string" || typeof cond.value !== "string") {
+        return cmp === 0;
+      }
+      return actual.toLowerCase().includes(cond.value.toLowerCase());
+    case "gt":
+      return cmp !== null && cmp > 0;
+    case "gte":
+      return cmp !== null && cmp >= 0;
+    case "lt":
+      return cmp !== null && cmp < 0;
+    case "lte":
+      return cmp !== null && cmp <= 0;
+    case "between": {
+      const upper = compareValues(actual, cond.max);
+      return cmp !== null && upper !== null && cmp >= 0 && upper <= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+function matchesCondition(
+  frontmatter: Record<string, unknown>,
+  cond: PropertyCondition
+): boolean {
+  const actual = frontmatter[cond.property];
+  const present = actual !== undefined && actual !== null && actual !== "";
+  if (cond.op === "exists") return present;
+  if (cond.op === "notExists") return !present;
+  if (cond.op === "notEquals") {
+    return !matchesCondition(frontmatter, { ...cond, op: "equals" });
+  }
+  if (!present) return false;
+
+  const values: unknown[] = Array.isArray(actual)
+    ? (actual as unknown[])
+    : [actual];
+  const expected =
+    cond.property === "tags" && typeof cond.value === "string"
+      ? { ...cond, value: cond.value.replace(/^#/, "") }
+      : cond;
+  return values.some((v) => matchesScalar(v, expected));
+}
+
+function parseConditions(raw: unknown): PropertyCondition[] | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return "Error: where must be a list of conditions";
+  const conditions: PropertyCondition[] = [];
+  for (const [i, item] of raw.entries()) {
+    const cond = item as Partial<PropertyCondition> | null;
+    if (!cond || typeof cond.property !== "string" || !cond.property) {
+      return `Error: condition ${i + 1} needs a property`;
+    }
+    if (!cond.op || !CONDITION_OPS.includes(cond.op)) {
+      return `Error: condition ${i + 1} has unknown op "${String(cond.op)}"`;
+    }
+    const needsValue = cond.op !== "exists" && cond.op !== "notExists";
+    if (needsValue && cond.value === undefined) {
+      return `Error: condition ${i + 1} (${cond.op}) needs a value`;
+    }
+    if (cond.op === "between" && cond.max === undefined) {
+      return `Error: condition ${i + 1} (between) needs a max`;
+    }
+    conditions.push(cond as PropertyCondition);
+  }
+  return conditions;
+}
+
+function getDateBound(
+  args: Record<string, unknown>,
+  key: string
+): number | null | string {
+  const raw = args[key];
+  if (raw === undefined || raw === "") return null;
+  const time = parseDate(raw);
+  return time === null ? `Error: ${key} is not a valid date: ${JSON.stringify(raw)}` : time;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function toRecord(file: TFile, cache: CachedMetadata | null): NoteRecord {
+  const frontmatter: Record<string, unknown> = { ...(cache?.frontmatter ?? {}) };
+  delete frontmatter.position;
+  const tags = cache ? (getAllTags(cache) ?? []) : [];
+  return {
+    file,
+    tags: [...new Set(tags.map(normalizeTag))],
+    frontmatter,
+  };
+}
+
+function queryNotes(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): string {
+  const tags = stringList(args.tags).map(normalizeTag).filter(Boolean);
+  const excludeTags = stringList(args.excludeTags)
+    .map(normalizeTag)
+    .filter(Boolean);
+  const tagMode = args.tagMode === "any" ? "any" : "all";
+  const conditions = parseConditions(args.where);
+  if (typeof conditions === "string") return conditions;
+
+  const bounds: Record<string, number | null> = {};
+  for (const key of [
+    "modifiedAfter",
+    "modifiedBefore",
+    "createdAfter",
+    "createdBefore",
+  ]) {
+    const bound = getDateBound(args, key);
+    if (typeof bound === "string") return bound;
+    bounds[key] = bound;
+  }
+
+  const folder =
+    typeof args.folder === "string" && args.folder && args.folder !== "/"
+      ? normalizePath(args.folder)
+      : "";
+  const limit = Math.min(
+    typeof args.limit === "number" && args.limit > 0
+      ? Math.floor(args.limit)
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+  const offset =
+    typeof args.offset === "number" && args.offset > 0
+      ? Math.floor(args.offset)
+      : 0;
+
+  const matches: NoteRecord[] = [];
+  for (const file of app.vault.getMarkdownFiles()) {
+    if (folder && !file.path.startsWith(`${folder}/`)) continue;
+    if (!pathPolicy.canRead(file.path)) continue;
+    const { mtime, ctime } = file.stat;
+    if (bounds.modifiedAfter !== null && mtime < bounds.modifiedAfter) continue;
+    if (bounds.modifiedBefore !== null && mtime > bounds.modifiedBefore) continue;
+    if (bounds.createdAfter !== null && ctime < bounds.createdAfter) continue;
+    if (bounds.createdBefore !== null && ctime > bounds.createdBefore) continue;
+
+    const note = toRecord(file, app.metadataCache.getFileCache(file));
+    if (tags.length > 0) {
+      const ok =
+        tagMode === "all"
+          ? tags.every((t) => hasTag(note.tags, t))
+          : tags.some((t) => hasTag(note.tags, t));
+      if (!ok) continue;
+    }
+    if (excludeTags.some((t) => hasTag(note.tags, t))) continue;
+    if (!conditions.every((c) => matchesCondition(note.frontmatter, c))) {
+      continue;
+    }
+    matches.push(note);
+  }
+
+  const sortBy = typeof args.sortBy === "string" ? args.sortBy : "path";
+  const direction = args.sortOrder === "desc" ? -1 : 1;
+  const sortKey = (note: NoteRecord): unknown => {
+    switch (sortBy) {
+      case "path":
+        return note.file.path;
+      case "modified":
+      case "mtime":
+        return note.file.stat.mtime;
+      case "created":
+      case "ctime":
+        return note.file.stat.ctime;
+      case "size":
+        return note.file.stat.size;
+      default:
+        return note.frontmatter[sortBy];
+    }
+  };
+  matches.sort((a, b) => {
+    const ka = sortKey(a);
+    const kb = sortKey(b);
+    // Notes without the property always go last
+    if (ka === undefined || ka === null) return kb === undefined || kb === null ? 0 : 1;
+    if (kb === undefined || kb === null) return -1;
+    return (compareValues(ka, kb) ?? 0) * direction;
+  });
+
+  if (matches.length === 0) return "No notes match the query.";
+
+  const fields = args.fields
+    ? stringList(args.fields)
+    : [...new Set(conditions.map((c) => c.property))];
+  const page = matches.slice(offset, offset + limit);
+  const lines = page.map((note) => {
+    const parts = [note.file.path];
+    if (note.tags.length > 0) {
+      parts.push(`tags: ${note.tags.map((t) => `#${t}`).join(" ")}`);
+    }
+    for (const field of fields) {
+      if (note.frontmatter[field] !== undefined) {
+        parts.push(`${field}: ${formatValue(note.frontmatter[field])}`);
+      }
+    }
+    if (sortBy === "modified" || sortBy === "mtime") {
+      parts.push(`modified: ${new Date(note.file.stat.mtime).toISOString()}`);
+    } else if (sortBy === "created" || sortBy === "ctime") {
+      parts.push(`created: ${new Date(note.file.stat.ctime).toISOString()}`);
+    }
+    return parts.join(" | ");
+  });
+
+  const header =
+    page.length === 0
+      ? `${matches.length} note(s) match; offset ${offset} is past the end.`
+      : `${matches.length} note(s) match (showing ${offset + 1}-${offset + page.length}):`;
+  const footer = pageFooter(offset, page.length, matches.length);
+  return `${header}\n${lines.join("\n")}${footer ? `\n${footer}` : ""}`;
+}
@@ -0,0 +1,181 @@
+// ============================================================
+// Tool Registry - Every tool the chat engine can call
+// ============================================================
+
+import { App } from "obsidian";
+import type {
+  CheckpointEntry,
+  ToolApprovalPolicy,
+  ToolDefinition,
+} from "../types";
+import { MAX_TOOL_OUTPUT_CHARS, truncateOutput } from "./output";
+import type { PathPolicy } from "./pathPolicy";
+
+/**
+ * How much damage a tool can do:
+ * - "read": no vault changes
+ * - "write": creates or changes content
+ * - "destructive": can delete, move or overwrite content
+ */
+export type ToolRiskLevel = "read" | "write" | "destructive";
+
+export interface ToolContext {
+  app: App;
+  /** Append vault mutations here so the turn can be reverted */
+  checkpoint: CheckpointEntry[];
+  /** Vault paths the tools may read and change */
+  pathPolicy: PathPolicy;
+  abortSignal?: AbortSignal;
+}
+
+export interface RegisteredTool {
+  /** OpenAI function definition; `definition.function.name` is the tool id */
+  definition: ToolDefinition;
+  handler: (
+    args: Record<string, unknown>,
+    context: ToolContext
+  ) => Promise<string> | string;
+  risk: ToolRiskLevel;
+  /** Grouping shown in settings, e.g. "Files" or the providing plugin */
+  category: string;
+  /** Short description for settings; defaults to the definition's */
+  summary?: string;
+  /** "builtin", "plugin:<id>" or "mcp:<server id>" */
+  source?: string;
+  /** Policy used until the user picks one; defaults from `risk` */
+  defaultPolicy?: ToolApprovalPolicy;
+  /**
+   * Narrow when the "ask" policy actually prompts, e.g. only when an
+   * existing file would be overwritten. Prompts every time if omitted.
+   */
+  needsApproval?: (app: App, args: Record<string, unknown>) => boolean;
+  /** Results longer than this are truncated; MAX_TOOL_OUTPUT_CHARS if omitted */
+  maxOutputChars?: number;
+  /**
+   * Arguments holding vault paths, checked against the path policy before
+   * the handler runs: read access for "read" tools, write access otherwise.
+   */
+  pathArgs?: string[];
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Add a tool. Returns a function that unregisters it again.
+   * Throws if the name is invalid or already taken.
+   */
+  register(tool: RegisteredTool): () => void {
+    const name = tool.definition.function.name;
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid tool name "${name}": use 1-64 letters, digits, _ or -`
+      );
+    }
+    if (this.tools.has(name)) {
+      throw new Error(`A tool named "${name}" is already registered`);
+    }
+    this.tools.set(name, tool);
+    this.emitChange();
+    return () => {
+      if (this.tools.get(name) === tool) this.unregister(name);
+    };
+  }
+
+  unregister(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) this.emitChange();
+    return removed;
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): RegisteredTool[] {
+    return [...this.tools.values()];
+  }
+
+  getDefinitions(
+    filter: (tool: RegisteredTool) => boolean = () => true
+  ): ToolDefinition[] {
+    return this.list()
+      .filter(filter)
+      .map((t) => t.definition);
+  }
+
+  /** The user's policy for a tool, falling back to the tool's default. */
+  resolvePolicy(
+    name: string,
+    overrides: Record<string, ToolApprovalPolicy>
+  ): ToolApprovalPolicy {
+    const override = overrides[name];
+    if (override) return override;
+    const tool = this.tools.get(name);
+    if (!tool) return "allow";
+    return tool.defaultPolicy ?? (tool.risk === "destructive" ? "ask" : "allow");
+  }
+
+  /** Whether a call under `policy` must wait for user confirmation. */
+  needsApproval(
+    app: App,
+    policy: ToolApprovalPolicy,
+    name: string,
+    args: Record<string, unknown>
+  ): boolean {
+    if (policy !== "ask") return false;
+    const tool = this.tools.get(name);
+    return tool?.needsApproval ? tool.needsApproval(app, args) : true;
+  }
+
+  /**
+   * The policy error for the first path argument the call may not access,
+   * or null. Callers can use this to skip asking for approval.
+   */
+  checkPaths(
+    name: string,
+    args: Record<string, unknown>,
+    pathPolicy: PathPolicy
+  ): string | null {
+    const tool = this.tools.get(name);
+    if (!tool?.pathArgs) return null;
+    const access = tool.risk === "read" ? "read" : "write";
+    for (const arg of tool.pathArgs) {
+      const path = args[arg];
+      if (typeof path !== "string") continue;
+      const error = pathPolicy.check(path, access);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  async execute(
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) throw new Error(`Unknown tool: ${name}`);
+    const denied = this.checkPaths(name, args, context.pathPolicy);
+    if (denied) return denied;
+    const output = await tool.handler(args, context);
+    return truncateOutput(output, tool.maxOutputChars ?? MAX_TOOL_OUTPUT_CHARS);
+  }
+
+  /** Subscribe to tool additions and removals. Returns an unsubscribe. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emitChange(): void {
+    for (const listener of this.listeners) listener();
+  }
+}
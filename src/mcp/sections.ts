@@ -0,0 +1,416 @@
+// ============================================================
+// Section Tools - Read and edit notes one heading at a time
+// ============================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import type { CheckpointEntry } from "../types";
+import type { RegisteredTool } from "./registry";
+
+interface Heading {
+  text: string;
+  level: number;
+  /** 0-indexed line of the heading itself */
+  line: number;
+}
+
+/** A heading and the lines it covers, up to the next heading of its level or higher */
+interface Section {
+  heading: Heading;
+  /** "Parent > Child" */
+  path: string;
+  /** 0-indexed, exclusive; includes subsections */
+  end: number;
+  /** 0-indexed, exclusive; stops at the first subsection */
+  bodyEnd: number;
+}
+
+const pathProperty = {
+  type: "string",
+  description: "File path relative to vault root.",
+};
+
+const headingProperty = {
+  type: "string",
+  description:
+    'Heading text without the leading #, e.g. "Tasks". If several headings share the text, give the path from vault_get_outline, e.g. "Project A > Tasks".',
+};
+
+const occurrenceProperty = {
+  type: "number",
+  description:
+    "Which match to use (1-based) when the heading is still ambiguous. Default: error if ambiguous.",
+};
+
+export function getSectionTools(): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_outline",
+          description:
+            "List the headings of a note as an indented tree with the line range each section covers. Use it to find the part of a large note you need before reading or editing it.",
+          parameters: {
+            type: "object",
+            properties: { path: pathProperty },
+            required: ["path"],
+          },
+        },
+      },
+      handler: (args, { app }) => getOutline(app, args),
+      risk: "read",
+      category: "Sections",
+      summary: "List headings with line ranges",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_read_section",
+          description:
+            "Read one section of a note: the heading line and everything under it up to the next heading of the same or higher level. Much cheaper than reading the whole file.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              heading: headingProperty,
+              includeSubsections: {
+                type: "boolean",
+                description:
+                  "Include nested subsections. Default true; false stops at the first subheading.",
+              },
+              occurrence: occurrenceProperty,
+            },
+            required: ["path", "heading"],
+          },
+        },
+      },
+      handler: (args, { app }) => readSection(app, args),
+      risk: "read",
+      category: "Sections",
+      summary: "Read the text under a heading",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_replace_section",
+          description:
+            "Replace everything under a heading (including its subsections) with new content. The heading line itself is kept unless replaceHeading is true, in which case content must start with the new heading.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              heading: headingProperty,
+              content: {
+                type: "string",
+                description: "New section content.",
+              },
+              replaceHeading: {
+                type: "boolean",
+                description:
+                  "Also replace the heading line. Default false.",
+              },
+              occurrence: occurrenceProperty,
+            },
+            required: ["path", "heading", "content"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) =>
+        replaceSection(app, args, checkpoint),
+      risk: "write",
+      category: "Sections",
+      summary: "Replace the text under a heading",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_insert_under_heading",
+          description:
+            "Insert content into a section: at the end of the section (after its subsections) or directly below the heading line.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: pathProperty,
+              heading: headingProperty,
+              content: {
+                type: "string",
+                description: "Content to insert.",
+              },
+              position: {
+                type: "string",
+                enum: ["start", "end"],
+                description:
+                  'Insert directly below the heading ("start") or at the end of the section ("end"). Default "end".',
+              },
+              occurrence: occurrenceProperty,
+            },
+            required: ["path", "heading", "content"],
+          },
+        },
+      },
+      handler: (args, { app, checkpoint }) =>
+        insertUnderHeading(app, args, checkpoint),
+      risk: "write",
+      category: "Sections",
+      summary: "Insert content under a heading",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+  ];
+}
+
+function getMarkdownFile(app: App, path: unknown): TFile | string {
+  if (typeof path !== "string" || !path) return "Error: path is required";
+  const file = app.vault.getAbstractFileByPath(normalizePath(path));
+  if (!(file instanceof TFile)) return `Error: File not found: ${path}`;
+  if (file.extension !== "md") {
+    return `Error: ${path} is not a Markdown note and has no headings`;
+  }
+  return file;
+}
+
+/** Headings parsed from the text, skipping frontmatter and code blocks */
+function parseHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  // Lines of a CRLF note still end in \r
+  const withoutCr = (line: string) => line.replace(/\r$/, "");
+  let i = 0;
+  if (withoutCr(lines[0] ?? "") === "---") {
+    const close = lines.findIndex((l, n) => n > 0 && withoutCr(l) === "---");
+    if (close > 0) i = close + 1;
+  }
+  let fence: string | null = null;
+  for (; i < lines.length; i++) {
+    const line = withoutCr(lines[i]);
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      continue;
+    }
+    if (fence) continue;
+    const match = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (match) {
+      headings.push({ text: match[2], level: match[1].length, line: i });
+    }
+  }
+  return headings;
+}
+
+/**
+ * Headings from the metadata cache. The cache is updated asynchronously,
+ * so right after an edit it can describe the previous content, with
+ * headings missing, moved or gone. It is only used if it lists the same
+ * heading lines as the text; otherwise the parsed headings are.
+ */
+function getHeadings(app: App, file: TFile, lines: string[]): Heading[] {
+  const parsed = parseHeadings(lines);
+  const cached = app.metadataCache.getFileCache(file)?.headings;
+  if (
+    cached &&
+    cached.length === parsed.length &&
+    cached.every(
+      (h, i) =>
+        h.position.start.line === parsed[i].line && h.level === parsed[i].level
+    )
+  ) {
+    return cached.map((h) => ({
+      text: h.heading,
+      level: h.level,
+      line: h.position.start.line,
+    }));
+  }
+  return parsed;
+}
+
+function buildSections(headings: Heading[], lineCount: number): Section[] {
+  const stack: Heading[] = [];
+  return headings.map((heading, i) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+    const next = headings
+      .slice(i + 1)
+      .find((h) => h.level <= heading.level);
+    return {
+      heading,
+      path: stack.map((h) => h.text).join(" > "),
+      end: next ? next.line : lineCount,
+      bodyEnd: headings[i + 1]?.line ?? lineCount,
+    };
+  });
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/^#+\s*/, "").trim().toLowerCase();
+}
+
+/** Find the section `query` names, matching a full path or a path suffix */
+function findSection(
+  sections: Section[],
+  query: unknown,
+  occurrence: unknown
+): Section | string {
+  if (typeof query !== "string" || !query.trim()) {
+    return "Error: heading is required";
+  }
+  const wanted = query
+    .split(">")
+    .map(normalizeHeading)
+    .filter(Boolean);
+  const matches = sections.filter((s) => {
+    const parts = s.path.split(" > ").map(normalizeHeading);
+    if (parts.length < wanted.length) return false;
+    const tail = parts.slice(parts.length - wanted.length);
+    return tail.every((part, i) => part === wanted[i]);
+  });
+
+  if (matches.length === 0) {
+    const available = sections.map((s) => s.path).slice(0, 30);
+    return `Error: Heading not found: "${query}". Headings in this note: ${available.length > 0 ? available.join("; ") : "(none)"}`;
+  }
+  if (typeof occurrence === "number" && occurrence >= 1) {
+    const match = matches[Math.floor(occurrence) - 1];
+    return (
+      match ??
+      `Error: occurrence ${occurrence} requested but "${query}" matches ${matches.length} heading(s)`
+    );
+  }
+  if (matches.length > 1) {
+    const list = matches
+      .map((s) => `${s.path} (L${s.heading.line + 1})`)
+      .join("; ");
+    return `Error: "${query}" matches ${matches.length} headings: ${list}. Use a longer heading path or occurrence.`;
+  }
+  return matches[0];
+}
+
+/** Lines of `content` without trailing blank lines */
+function contentLines(content: string): string[] {
+  const lines = content.split("\n");
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  return lines;
+}
+
+/** Index just past the last non-blank line in [start, end) */
+function trimmedEnd(lines: string[], start: number, end: number): number {
+  let i = end;
+  while (i > start && !lines[i - 1].trim()) i--;
+  return i;
+}
+
+async function loadSections(
+  app: App,
+  args: Record<string, unknown>,
+  read: (file: TFile) => Promise<string>
+): Promise<
+  { file: TFile; content: string; lines: string[]; sections: Section[] } | string
+> {
+  const file = getMarkdownFile(app, args.path);
+  if (typeof file === "string") return file;
+  const content = await read(file);
+  const lines = content.split("\n");
+  const sections = buildSections(getHeadings(app, file, lines), lines.length);
+  return { file, content, lines, sections };
+}
+
+async function getOutline(
+  app: App,
+  args: Record<string, unknown>
+): Promise<string> {
+  const loaded = await loadSections(app, args, (f) => app.vault.cachedRead(f));
+  if (typeof loaded === "string") return loaded;
+  const { file, lines, sections } = loaded;
+  if (sections.length === 0) {
+    return `${file.path} has no headings (${lines.length} lines).`;
+  }
+
+  const minLevel = Math.min(...sections.map((s) => s.heading.level));
+  const output = sections.map(({ heading, end }) => {
+    const indent = "  ".repeat(heading.level - minLevel);
+    return `${indent}${"#".repeat(heading.level)} ${heading.text} (L${heading.line + 1}-${end})`;
+  });
+  const preamble =
+    sections[0].heading.line > 0
+      ? `(text before the first heading: L1-${sections[0].heading.line})\n`
+      : "";
+  return `Outline of ${file.path} (${lines.length} lines):\n${preamble}${output.join("\n")}`;
+}
+
+async function readSection(
+  app: App,
+  args: Record<string, unknown>
+): Promise<string> {
+  const loaded = await loadSections(app, args, (f) => app.vault.cachedRead(f));
+  if (typeof loaded === "string") return loaded;
+  const { file, lines, sections } = loaded;
+  const section = findSection(sections, args.heading, args.occurrence);
+  if (typeof section === "string") return section;
+
+  const end =
+    args.includeSubsections === false ? section.bodyEnd : section.end;
+  const start = section.heading.line;
+  return `${section.path} (L${start + 1}-${end} of ${file.path}):\n${lines.slice(start, end).join("\n")}`;
+}
+
+async function replaceSection(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  if (typeof args.content !== "string") return "Error: content is required";
+  const loaded = await loadSections(app, args, (f) => app.vault.read(f));
+  if (typeof loaded === "string") return loaded;
+  const { file, content, lines, sections } = loaded;
+  const section = findSection(sections, args.heading, args.occurrence);
+  if (typeof section === "string") return section;
+
+  const replaceHeading = args.replaceHeading === true;
+  if (replaceHeading && !/^#{1,6}\s/.test(args.content.trimStart())) {
+    return "Error: with replaceHeading, content must start with a Markdown heading";
+  }
+  const start = replaceHeading ? section.heading.line : section.heading.line + 1;
+  // Keep the blank lines that separated the section from the next one
+  const end = trimmedEnd(lines, start, section.end);
+  const replacement = contentLines(args.content);
+  lines.splice(start, end - start, ...replacement);
+
+  await app.vault.modify(file, lines.join("\n"));
+  checkpoint.push({ kind: "modified", path: file.path, previousContent: content });
+  return `Section replaced: ${section.path} in ${file.path} (L${start + 1}-${end} -> ${replacement.length} line(s))`;
+}
+
+async function insertUnderHeading(
+  app: App,
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
+): Promise<string> {
+  if (typeof args.content !== "string" || !args.content) {
+    return "Error: content is required";
+  }
+  const loaded = await loadSections(app, args, (f) => app.vault.read(f));
+  if (typeof loaded === "string") return loaded;
+  const { file, content, lines, sections } = loaded;
+  const section = findSection(sections, args.heading, args.occurrence);
+  if (typeof section === "string") return section;
+
+  const atStart = args.position === "start";
+  const index = atStart
+    ? section.heading.line + 1
+    : trimmedEnd(lines, section.heading.line + 1, section.end);
+  lines.splice(index, 0, ...contentLines(args.content));
+
+  await app.vault.modify(file, lines.join("\n"));
+  checkpoint.push({ kind: "modified", path: file.path, previousContent: content });
+  return `Content inserted ${atStart ? "below the heading" : "at the end"} of ${section.path} in ${file.path} (line ${index + 1})`;
+}
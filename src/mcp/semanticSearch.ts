@@ -0,0 +1,124 @@
+// ============================================================
+// Semantic Search Tool - Find notes by meaning
+// ============================================================
+
+import { normalizePath } from "obsidian";
+import type { PathPolicy } from "./pathPolicy";
+import type { RegisteredTool } from "./registry";
+import type { SemanticIndex } from "../search/semantic";
+
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_RESULTS = 50;
+
+export function getSemanticSearchTools(
+  semanticIndex: SemanticIndex
+): RegisteredTool[] {
+  return [
+    {
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_semantic_search",
+          description:
+            "Find note sections by meaning rather than exact words, e.g. \"notes about burnout\" also finds sections on exhaustion or overwork. Returns sections ranked by similarity with their heading and starting line. Use vault_search instead for exact names, quotes or tags.",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description:
+                  "What to look for, as a natural language description or question.",
+              },
+              path: {
+                type: "string",
+                description: "Only search within this folder. Default: whole vault.",
+              },
+              maxResults: {
+                type: "number",
+                description: `Maximum number of sections (1-${MAX_RESULTS}). Default ${DEFAULT_MAX_RESULTS}.`,
+              },
+              offset: {
+                type: "number",
+                description:
+                  "Skip this many results, to get the next page. Default 0.",
+              },
+              minScore: {
+                type: "number",
+                description:
+                  "Only return sections with at least this similarity (0-1). Default 0.",
+              },
+            },
+            required: ["query"],
+          },
+        },
+      },
+      handler: (args, { pathPolicy, abortSignal }) =>
+        semanticSearch(semanticIndex, args, pathPolicy, abortSignal),
+      risk: "read",
+      category: "Search",
+      summary: "Find note sections by meaning",
+      source: "builtin",
+      pathArgs: ["path"],
+    },
+  ];
+}
+
+async function semanticSearch(
+  semanticIndex: SemanticIndex,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  const query = typeof args.query === "string" ? args.query.trim() : "";
+  if (!query) return "Error: query is required";
+  const folder =
+    typeof args.path === "string" && args.path && args.path !== "/"
+      ? normalizePath(args.path)
+      : undefined;
+  const limit =
+    typeof args.maxResults === "number" && args.maxResults >= 1
+      ? Math.min(Math.floor(args.maxResults), MAX_RESULTS)
+      : DEFAULT_MAX_RESULTS;
+  const minScore = typeof args.minScore === "number" ? args.minScore : 0;
+  const offset =
+    typeof args.offset === "number" && args.offset > 0
+      ? Math.floor(args.offset)
+      : 0;
+
+  let result;
+  try {
+    result = await semanticIndex.search(query, {
+      folder,
+      include: (path) => pathPolicy.canRead(path),
+      limit: offset + limit + 1,
+      minScore,
+      abortSignal,
+    });
+  } catch (err) {
+    return `Error: Semantic search failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  const { hits, pending } = result;
+  const pendingNote =
+    pending > 0
+      ? `\n\nNote: ${pending} new or changed note(s) are not indexed yet, so results may be incomplete. Each search indexes a few more; the user can index all of them under Settings → Semantic search → Rebuild index.`
+      : "";
+  if (hits.length === 0) {
+    return `No sections similar to "${query}".${pendingNote}`;
+  }
+  if (offset >= hits.length) {
+    return `Offset ${offset} is past the last similar section.`;
+  }
+
+  // One extra hit was requested to know whether another page exists
+  const page = hits.slice(offset, offset + limit);
+  const output = page.map((hit) => {
+    const location = hit.heading ? `${hit.path} > ${hit.heading}` : hit.path;
+    const preview = hit.preview.replace(/\s+/g, " ");
+    return `[${hit.score.toFixed(2)}] ${location} (L${hit.line + 1})\n  ${preview}`;
+  });
+  const footer =
+    hits.length > offset + limit
+      ? `\n\n... more similar sections — call again with offset=${offset + limit}`
+      : "";
+  return `Sections ${offset + 1}-${offset + page.length} similar to "${query}", most similar first:\n\n${output.join("\n\n")}${footer}${pendingNote}`;
+}
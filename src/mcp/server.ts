@@ -0,0 +1,388 @@
+// ============================================================
+// MCP Server - Exposes the vault tools to external MCP clients
+// ============================================================
+
+import { App } from "obsidian";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { ToolApprovalPolicy } from "../types";
+import type { PathPolicy } from "./pathPolicy";
+import type { RegisteredTool, ToolRegistry } from "./registry";
+import { ToolApprovalModal } from "../ui/ToolApprovalModal";
+
+export const MCP_ENDPOINT_PATH = "/mcp";
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const SERVER_INFO = { name: "obsidian-github-copilot-mcp", version: "1.0.0" };
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+class RpcError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface McpServerOptions {
+  app: App;
+  port: number;
+  token: string;
+  registry: ToolRegistry;
+  pathPolicy: PathPolicy;
+  getApprovalPolicies: () => Record<string, ToolApprovalPolicy>;
+  onDebug: (msg: string) => void;
+}
+
+/** Generate a random bearer token for the MCP endpoint. */
+export function generateMcpToken(): string {
+  const bytes = new Uint8Array(24);
+  window.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Tools proxied from other MCP servers are not re-exported */
+function isServedTool(tool: RegisteredTool): boolean {
+  return !tool.source?.startsWith("mcp:");
+}
+
+function isLocalOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin);
+    return ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** The server is only reachable as 127.0.0.1 or localhost on its port */
+function isLocalHost(host: string | undefined, port: number): boolean {
+  return host === `127.0.0.1:${port}` || host === `localhost:${port}`;
+}
+
+/** Compare the Authorization header in constant time */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  // Loaded lazily: the module does not exist on mobile
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { timingSafeEqual } = require("crypto") as typeof import("crypto");
+  const actual = Buffer.from(header ?? "");
+  const expected = Buffer.from(`Bearer ${token}`);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Model Context Protocol server using the streamable HTTP transport in
+ * its JSON-response form: clients POST JSON-RPC messages to
+ * `http://127.0.0.1:<port>/mcp` with `Authorization: Bearer <token>` and
+ * receive a single JSON response. Only listens on the loopback interface.
+ */
+export class McpServer {
+  private options: McpServerOptions;
+  private server: Server | null = null;
+
+  constructor(options: McpServerOptions) {
+    this.options = options;
+  }
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  start(): Promise<void> {
+    if (this.server) return Promise.resolve();
+
+    // Loaded lazily: the module does not exist on mobile
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const http = require("http") as typeof import("http");
+    const server = http.createServer((req, res) => {
+      void this.handleHttp(req, res);
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, "127.0.0.1", () => {
+        server.off("error", reject);
+        this.server = server;
+        this.options.onDebug(
+          `[MCP] Server listening on http://127.0.0.1:${this.options.port}${MCP_ENDPOINT_PATH}`
+        );
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  // --- HTTP layer ---
+
+  private async handleHttp(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    if (url.pathname !== MCP_ENDPOINT_PATH) {
+      this.sendStatus(res, 404, "Not found");
+      return;
+    }
+
+    // Protect against DNS rebinding from web pages
+    if (!isLocalHost(req.headers.host, this.options.port)) {
+      this.sendStatus(res, 403, "Forbidden host");
+      return;
+    }
+    const origin = req.headers.origin;
+    if (origin && !isLocalOrigin(origin)) {
+      this.sendStatus(res, 403, "Forbidden origin");
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, this.options.token)) {
+      this.sendStatus(res, 401, "Unauthorized");
+      return;
+    }
+
+    if (req.method !== "POST") {
+      // No server-initiated SSE stream is offered
+      res.setHeader("Allow", "POST");
+      this.sendStatus(res, 405, "Method not allowed");
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await this.readBody(req);
+    } catch (err) {
+      this.sendStatus(
+        res,
+        413,
+        err instanceof Error ? err.message : String(err)
+      );
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      this.sendJson(res, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: PARSE_ERROR, message: "Parse error" },
+      });
+      return;
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload];
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await this.handleMessage(message);
+      if (response) responses.push(response);
+    }
+
+    if (responses.length === 0) {
+      // Only notifications or responses were received
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+    this.sendJson(res, Array.isArray(payload) ? responses : responses[0]);
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error("Request body too large"));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, body: unknown): void {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendStatus(res: ServerResponse, status: number, message: string) {
+    res.writeHead(status, { "Content-Type": "text/plain" });
+    res.end(message);
+  }
+
+  // --- JSON-RPC layer ---
+
+  private async handleMessage(
+    message: unknown
+  ): Promise<JsonRpcResponse | null> {
+    if (
+      !message ||
+      typeof message !== "object" ||
+      (message as JsonRpcRequest).jsonrpc !== "2.0"
+    ) {
+      return {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: INVALID_REQUEST, message: "Invalid request" },
+      };
+    }
+
+    const request = message as JsonRpcRequest;
+    // Responses from the client and notifications need no reply
+    if (typeof request.method !== "string") return null;
+    const isNotification = request.id === undefined;
+    const id = request.id ?? null;
+
+    this.options.onDebug(`[MCP] ${request.method}`);
+
+    try {
+      const result = await this.dispatch(request.method, request.params ?? {});
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      if (isNotification) return null;
+      const rpcError =
+        err instanceof RpcError
+          ? { code: err.code, message: err.message }
+          : {
+              code: INVALID_PARAMS,
+              message: err instanceof Error ? err.message : String(err),
+            };
+      return { jsonrpc: "2.0", id, error: rpcError };
+    }
+  }
+
+  private async dispatch(
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        const protocolVersion =
+          typeof requested === "string" &&
+          SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0];
+        return {
+          protocolVersion,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+        };
+      }
+      case "notifications/initialized":
+      case "notifications/cancelled":
+        return {};
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: this.options.registry
+            .getDefinitions(isServedTool)
+            .map((def) => ({
+              name: def.function.name,
+              description: def.function.description,
+              inputSchema: def.function.parameters,
+            })),
+        };
+      case "tools/call":
+        return await this.callTool(params);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>): Promise<unknown> {
+    const name = params.name;
+    if (typeof name !== "string") {
+      throw new RpcError(INVALID_PARAMS, "Missing tool name");
+    }
+    const { app, registry, pathPolicy } = this.options;
+    const tool = registry.get(name);
+    if (!tool || !isServedTool(tool)) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+    const args =
+      params.arguments && typeof params.arguments === "object"
+        ? (params.arguments as Record<string, unknown>)
+        : {};
+
+    const policy = registry.resolvePolicy(
+      name,
+      this.options.getApprovalPolicies()
+    );
+    if (policy === "deny") {
+      return this.textResult(
+        `The tool ${name} is disabled in the plugin settings.`,
+        true
+      );
+    }
+    const denied = registry.checkPaths(name, args, pathPolicy);
+    if (denied) return this.textResult(denied, true);
+    if (registry.needsApproval(app, policy, name, args)) {
+      const approved = await ToolApprovalModal.request(
+        app,
+        name,
+        args,
+        "An external MCP client"
+      );
+      if (!approved) {
+        return this.textResult(
+          `The user rejected this ${name} call. It was not executed.`,
+          true
+        );
+      }
+    }
+
+    try {
+      const result = await registry.execute(name, args, {
+        app,
+        checkpoint: [],
+        pathPolicy,
+      });
+      return this.textResult(result, result.startsWith("Error:"));
+    } catch (err) {
+      return this.textResult(
+        `Error: ${err instanceof Error ? err.message : String(err)}`,
+        true
+      );
+    }
+  }
+
+  private textResult(text: string, isError: boolean) {
+    return { content: [{ type: "text", text }], isError };
+  }
+}
@@ -3,286 +3,443 @@
 // ============================================================
 
 import { App, TFile, TFolder, normalizePath } from "obsidian";
-import type { ToolDefinition } from "../types";
-
-// --- Tool Definitions (OpenAI function-calling format) ---
-
-export function getVaultToolDefinitions(): ToolDefinition[] {
+import type { CheckpointEntry } from "../types";
+import { getCanvasTools } from "./canvas";
+import { captureFileContent, ensureParentFolders } from "./checkpoints";
+import { getFrontmatterTools } from "./frontmatter";
+import { getLinkTools } from "./links";
+import { getQueryTools } from "./query";
+import { DEFAULT_READ_CHARS, pageFooter, readLineRange } from "./output";
+import { findClosest, findText, lineAt } from "../utils/textMatch";
+import { getPatchTools } from "./patch";
+import type { PathPolicy } from "./pathPolicy";
+import { getSectionTools } from "./sections";
+import { getSemanticSearchTools } from "./semanticSearch";
+import type { SearchIndex } from "../search/fullText";
+import type { SemanticIndex } from "../search/semantic";
+import type { RegisteredTool, ToolRegistry } from "./registry";
+
+// --- Built-in Vault Tools ---
+
+const DEFAULT_LIST_LIMIT = 200;
+
+export function getVaultTools(searchIndex: SearchIndex): RegisteredTool[] {
   return [
     {
-      type: "function",
-      function: {
-        name: "vault_list_files",
-        description:
-          "List files and folders in the Obsidian vault. Can list from root or a specific folder path. Returns file paths with sizes.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description:
-                'Folder path to list. Use "/" or empty string for vault root.',
-            },
-            recursive: {
-              type: "boolean",
-              description:
-                "If true, list all files recursively. Default false.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_list_files",
+          description:
+            "List files and folders in the Obsidian vault. Can list from root or a specific folder path. Returns file paths with sizes, a page at a time.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  'Folder path to list. Use "/" or empty string for vault root.',
+              },
+              recursive: {
+                type: "boolean",
+                description:
+                  "If true, list all files recursively. Default false.",
+              },
+              limit: {
+                type: "number",
+                description: `Maximum entries to return. Default ${DEFAULT_LIST_LIMIT}.`,
+              },
+              offset: {
+                type: "number",
+                description:
+                  "Skip this many entries, to page through long listings. Default 0.",
+              },
             },
+            required: [],
           },
-          required: [],
         },
       },
+      handler: (args, { app, pathPolicy }) => listFiles(app, args, pathPolicy),
+      risk: "read",
+      category: "Files",
+      summary: "List files and folders",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_read_file",
-        description:
-          "Read the full content of a file in the vault. Returns the text content of the file.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description:
-                'File path relative to vault root, e.g. "folder/note.md"',
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_read_file",
+          description:
+            "Read the content of a file in the vault. Long files are returned in parts: the result then starts with the line range and ends with the startLine to continue from.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  'File path relative to vault root, e.g. "folder/note.md"',
+              },
+              startLine: {
+                type: "number",
+                description: "First line to return (1-based). Default 1.",
+              },
+              endLine: {
+                type: "number",
+                description: "Last line to return (inclusive). Default: end of file.",
+              },
+              maxChars: {
+                type: "number",
+                description: `Stop after about this many characters. Default ${DEFAULT_READ_CHARS}.`,
+              },
             },
+            required: ["path"],
           },
-          required: ["path"],
         },
       },
+      handler: (args, { app }) => readFile(app, args),
+      risk: "read",
+      category: "Files",
+      summary: "Read file content",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_write_file",
-        description:
-          "Create a new file or overwrite an existing file in the vault. Use this to create new notes or completely replace file content.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description:
-                'File path relative to vault root, e.g. "folder/new-note.md"',
-            },
-            content: {
-              type: "string",
-              description: "The full content to write to the file.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_write_file",
+          description:
+            "Create a new file or overwrite an existing file in the vault. Use this to create new notes or completely replace file content.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  'File path relative to vault root, e.g. "folder/new-note.md"',
+              },
+              content: {
+                type: "string",
+                description: "The full content to write to the file.",
+              },
             },
+            required: ["path", "content"],
           },
-          required: ["path", "content"],
         },
       },
+      handler: (args, { app, checkpoint }) => writeFile(app, args, checkpoint),
+      risk: "destructive",
+      category: "Files",
+      summary: "Create or overwrite files",
+      source: "builtin",
+      pathArgs: ["path"],
+      // Creating a new file cannot lose data; only confirm overwrites
+      needsApproval: (app, args) => {
+        const path = typeof args.path === "string" ? args.path : "";
+        return (
+          !!path &&
+          app.vault.getAbstractFileByPath(normalizePath(path)) instanceof TFile
+        );
+      },
     },
     {
-      type: "function",
-      function: {
-        name: "vault_edit_file",
-        description:
-          "Edit a file by replacing a specific text section with new text. Use this for targeted edits instead of rewriting the entire file. The oldText must be an exact match of existing content in the file.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "File path relative to vault root.",
-            },
-            oldText: {
-              type: "string",
-              description:
-                "The exact text to find and replace. Must match exactly.",
-            },
-            newText: {
-              type: "string",
-              description: "The replacement text.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_edit_file",
+          description:
+            "Edit a file by replacing a specific text section with new text. Use this for targeted edits instead of rewriting the entire file. oldText should match existing content exactly; if it does not, differences in whitespace, line endings and quotes are tolerated, then near-identical lines. The result says which kind of match was used. If oldText occurs more than once, set replaceAll or occurrence. On failure the closest text in the file is returned.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root.",
+              },
+              oldText: {
+                type: "string",
+                description:
+                  "The text to find and replace, copied from the file.",
+              },
+              newText: {
+                type: "string",
+                description: "The replacement text.",
+              },
+              replaceAll: {
+                type: "boolean",
+                description: "Replace every occurrence. Default false.",
+              },
+              occurrence: {
+                type: "number",
+                description:
+                  "Replace only this occurrence (1-based, in file order) when oldText matches several times.",
+              },
             },
+            required: ["path", "oldText", "newText"],
           },
-          required: ["path", "oldText", "newText"],
         },
       },
+      handler: (args, { app, checkpoint }) => editFile(app, args, checkpoint),
+      risk: "write",
+      category: "Files",
+      summary: "Edit specific text in a file",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_search",
-        description:
-          "Search for files containing specific text in the vault. Returns file paths and matching line excerpts.",
-        parameters: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Text to search for (case-insensitive).",
-            },
-            path: {
-              type: "string",
-              description:
-                "Optional folder path to limit search scope. Defaults to vault root.",
-            },
-            maxResults: {
-              type: "number",
-              description: "Maximum number of matching files to return. Default 20.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_search",
+          description:
+            "Full-text search over the vault's notes, ranked by relevance. Supports \"exact phrases\", OR between terms (terms are ANDed by default), -term or NOT term to exclude, and prefix* matching. Set regex to true to search with a regular expression instead. Returns matching files with line excerpts.",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description:
+                  'Keywords, e.g. `"project plan" budget OR cost -draft`, or a regular expression when regex is true.',
+              },
+              path: {
+                type: "string",
+                description:
+                  "Optional folder path to limit search scope. Defaults to vault root.",
+              },
+              regex: {
+                type: "boolean",
+                description: "Treat query as a JavaScript regular expression. Default false.",
+              },
+              caseSensitive: {
+                type: "boolean",
+                description: "Case-sensitive regex matching. Default false.",
+              },
+              maxResults: {
+                type: "number",
+                description: "Maximum number of matching files to return. Default 20.",
+              },
+              maxExcerpts: {
+                type: "number",
+                description: "Matching lines to show per file. Default 3.",
+              },
+              offset: {
+                type: "number",
+                description: "Number of results to skip, for pagination.",
+              },
             },
+            required: ["query"],
           },
-          required: ["query"],
         },
       },
+      handler: (args, { pathPolicy }) =>
+        searchFiles(searchIndex, args, pathPolicy),
+      risk: "read",
+      category: "Search",
+      summary: "Search file contents",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_delete_file",
-        description:
-          "Delete a file from the vault. Moves the file to Obsidian trash.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "File path relative to vault root to delete.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_delete_file",
+          description:
+            "Delete a file from the vault. Moves the file to Obsidian trash.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root to delete.",
+              },
             },
+            required: ["path"],
           },
-          required: ["path"],
         },
       },
+      handler: (args, { app, checkpoint }) => deleteFile(app, args, checkpoint),
+      risk: "destructive",
+      category: "Files",
+      summary: "Delete files",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_rename_file",
-        description:
-          "Rename or move a file within the vault. Obsidian will automatically update all internal links.",
-        parameters: {
-          type: "object",
-          properties: {
-            oldPath: {
-              type: "string",
-              description: "Current file path.",
-            },
-            newPath: {
-              type: "string",
-              description: "New file path.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_rename_file",
+          description:
+            "Rename or move a file within the vault. Obsidian will automatically update all internal links.",
+          parameters: {
+            type: "object",
+            properties: {
+              oldPath: {
+                type: "string",
+                description: "Current file path.",
+              },
+              newPath: {
+                type: "string",
+                description: "New file path.",
+              },
             },
+            required: ["oldPath", "newPath"],
           },
-          required: ["oldPath", "newPath"],
         },
       },
+      handler: (args, { app, checkpoint }) => renameFile(app, args, checkpoint),
+      risk: "destructive",
+      category: "Files",
+      summary: "Rename or move files",
+      source: "builtin",
+      pathArgs: ["oldPath", "newPath"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_create_folder",
-        description: "Create a new folder in the vault.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description:
-                'Folder path to create, e.g. "Projects/NewProject"',
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_create_folder",
+          description: "Create a new folder in the vault.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  'Folder path to create, e.g. "Projects/NewProject"',
+              },
             },
+            required: ["path"],
           },
-          required: ["path"],
         },
       },
+      handler: (args, { app, checkpoint }) => createFolder(app, args, checkpoint),
+      risk: "write",
+      category: "Files",
+      summary: "Create folders",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_get_active_file",
-        description:
-          "Get the path and content of the currently active (open) file in Obsidian.",
-        parameters: {
-          type: "object",
-          properties: {},
-          required: [],
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_get_active_file",
+          description:
+            "Get the path and content of the currently active (open) file in Obsidian. Accepts the same line range arguments as vault_read_file.",
+          parameters: {
+            type: "object",
+            properties: {
+              startLine: {
+                type: "number",
+                description: "First line to return (1-based). Default 1.",
+              },
+              endLine: {
+                type: "number",
+                description: "Last line to return (inclusive). Default: end of file.",
+              },
+              maxChars: {
+                type: "number",
+                description: `Stop after about this many characters. Default ${DEFAULT_READ_CHARS}.`,
+              },
+            },
+            required: [],
+          },
         },
       },
+      handler: (args, { app, pathPolicy }) =>
+        getActiveFile(app, args, pathPolicy),
+      risk: "read",
+      category: "Workspace",
+      summary: "Get currently open file",
+      source: "builtin",
     },
     {
-      type: "function",
-      function: {
-        name: "vault_append_to_file",
-        description:
-          "Append content to the end of an existing file. Useful for adding entries to logs, journals, or lists.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "File path relative to vault root.",
-            },
-            content: {
-              type: "string",
-              description: "Content to append to the end of the file.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_append_to_file",
+          description:
+            "Append content to the end of an existing file. Useful for adding entries to logs, journals, or lists.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root.",
+              },
+              content: {
+                type: "string",
+                description: "Content to append to the end of the file.",
+              },
             },
+            required: ["path", "content"],
           },
-          required: ["path", "content"],
         },
       },
+      handler: (args, { app, checkpoint }) => appendToFile(app, args, checkpoint),
+      risk: "write",
+      category: "Files",
+      summary: "Append content to a file",
+      source: "builtin",
+      pathArgs: ["path"],
     },
     {
-      type: "function",
-      function: {
-        name: "vault_insert_at_line",
-        description:
-          "Insert content at a specific line number in a file. Line numbers start at 1. Content is inserted before the specified line.",
-        parameters: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "File path relative to vault root.",
-            },
-            line: {
-              type: "number",
-              description: "Line number to insert at (1-indexed). Content is inserted before this line.",
-            },
-            content: {
-              type: "string",
-              description: "Content to insert.",
+      definition: {
+        type: "function",
+        function: {
+          name: "vault_insert_at_line",
+          description:
+            "Insert content at a specific line number in a file. Line numbers start at 1. Content is inserted before the specified line.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "File path relative to vault root.",
+              },
+              line: {
+                type: "number",
+                description: "Line number to insert at (1-indexed). Content is inserted before this line.",
+              },
+              content: {
+                type: "string",
+                description: "Content to insert.",
+              },
             },
+            required: ["path", "line", "content"],
           },
-          required: ["path", "line", "content"],
         },
       },
+      handler: (args, { app, checkpoint }) => insertAtLine(app, args, checkpoint),
+      risk: "write",
+      category: "Files",
+      summary: "Insert content at a specific line",
+      source: "builtin",
+      pathArgs: ["path"],
     },
   ];
 }
 
-// --- Tool Execution ---
-
-export async function executeVaultTool(
-  app: App,
-  toolName: string,
-  args: Record<string, unknown>
-): Promise<string> {
-  switch (toolName) {
-    case "vault_list_files":
-      return listFiles(app, args);
-    case "vault_read_file":
-      return await readFile(app, args);
-    case "vault_write_file":
-      return await writeFile(app, args);
-    case "vault_edit_file":
-      return await editFile(app, args);
-    case "vault_search":
-      return await searchFiles(app, args);
-    case "vault_delete_file":
-      return await deleteFile(app, args);
-    case "vault_rename_file":
-      return await renameFile(app, args);
-    case "vault_create_folder":
-      return await createFolder(app, args);
-    case "vault_get_active_file":
-      return await getActiveFile(app);
-    case "vault_append_to_file":
-      return await appendToFile(app, args);
-    case "vault_insert_at_line":
-      return await insertAtLine(app, args);
-    default:
-      throw new Error(`Unknown tool: ${toolName}`);
+export function registerVaultTools(
+  registry: ToolRegistry,
+  searchIndex: SearchIndex,
+  semanticIndex: SemanticIndex
+): void {
+  for (const tool of [
+    ...getVaultTools(searchIndex),
+    ...getSemanticSearchTools(semanticIndex),
+    ...getPatchTools(),
+    ...getSectionTools(),
+    ...getFrontmatterTools(),
+    ...getLinkTools(),
+    ...getQueryTools(),
+    ...getCanvasTools(),
+  ]) {
+    registry.register(tool);
   }
 }
 
@@ -290,15 +447,20 @@ export async function executeVaultTool(
 
 function listFiles(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
 ): string {
   const folderPath = (args.path as string) || "/";
   const recursive = (args.recursive as boolean) || false;
+  const limit = (args.limit as number) || DEFAULT_LIST_LIMIT;
+  const offset = (args.offset as number) || 0;
 
   const entries: string[] = [];
 
   function collectFiles(folder: TFolder, depth: number) {
     for (const child of folder.children) {
+      // Folders outside the allow-list still show if they lead to allowed notes
+      if (pathPolicy.check(child.path, "read")) continue;
       if (child instanceof TFile) {
         const sizeKB = (child.stat.size / 1024).toFixed(1);
         entries.push(`${child.path} (${sizeKB} KB)`);
@@ -330,7 +492,21 @@ function listFiles(
   if (entries.length === 0) {
     return "No files found.";
   }
-  return entries.join("\n");
+  if (offset === 0 && entries.length <= limit) {
+    return entries.join("\n");
+  }
+  if (offset >= entries.length) {
+    return `${entries.length} entries; offset ${offset} is past the end.`;
+  }
+
+  const page = entries.slice(offset, offset + limit);
+  const output = [
+    `Entries ${offset + 1}-${offset + page.length} of ${entries.length}:`,
+    ...page,
+  ];
+  const footer = pageFooter(offset, page.length, entries.length);
+  if (footer) output.push(footer);
+  return output.join("\n");
 }
 
 async function readFile(
@@ -346,12 +522,13 @@ async function readFile(
   }
 
   const content = await app.vault.cachedRead(file);
-  return content;
+  return readLineRange(file.path, content, args);
 }
 
 async function writeFile(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   const content = args.content as string;
@@ -361,28 +538,25 @@ async function writeFile(
   const normalized = normalizePath(path);
 
   // Ensure parent directories exist
-  const parts = normalized.split("/");
-  if (parts.length > 1) {
-    const parentPath = parts.slice(0, -1).join("/");
-    const parentAbstract = app.vault.getAbstractFileByPath(parentPath);
-    if (!parentAbstract) {
-      await app.vault.createFolder(parentPath);
-    }
-  }
+  await ensureParentFolders(app, normalized, checkpoint);
 
   const existing = app.vault.getAbstractFileByPath(normalized);
   if (existing && existing instanceof TFile) {
+    const previousContent = await app.vault.read(existing);
     await app.vault.modify(existing, content);
+    checkpoint.push({ kind: "modified", path: normalized, previousContent });
     return `File updated: ${normalized}`;
   } else {
     await app.vault.create(normalized, content);
+    checkpoint.push({ kind: "created", path: normalized, isFolder: false });
     return `File created: ${normalized}`;
   }
 }
 
 async function editFile(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   const oldText = args.oldText as string;
@@ -398,62 +572,116 @@ async function editFile(
   }
 
   const content = await app.vault.read(file);
-  if (!content.includes(oldText)) {
-    return `Error: Could not find the specified text in ${path}. The oldText must match exactly.`;
+  const found = findText(content, oldText);
+  if (!found) {
+    const closest = findClosest(content, oldText);
+    if (!closest) {
+      return `Error: Could not find the specified text in ${path}.`;
+    }
+    const from = lineAt(content, closest.start);
+    const to = lineAt(content, closest.end);
+    return `Error: Could not find the specified text in ${path}. Closest match (L${from}-${to}, ${Math.round(closest.similarity * 100)}% similar):\n${content.slice(closest.start, closest.end)}`;
   }
 
-  const occurrences = content.split(oldText).length - 1;
-  const newContent = content.replace(oldText, newText);
-  await app.vault.modify(file, newContent);
+  const { strategy, matches } = found;
+  const occurrence = args.occurrence as number | undefined;
+  let selected = matches;
+  if (args.replaceAll !== true) {
+    if (typeof occurrence === "number") {
+      const match = matches[Math.floor(occurrence) - 1];
+      if (!match) {
+        return `Error: occurrence ${occurrence} requested but oldText matches ${matches.length} time(s) in ${path}`;
+      }
+      selected = [match];
+    } else if (matches.length > 1) {
+      const lines = matches.map((m) => `L${lineAt(content, m.start)}`);
+      return `Error: oldText matches ${matches.length} times in ${path} (${lines.join(", ")}). Include more surrounding text, or set replaceAll or occurrence.`;
+    }
+  }
 
-  return `File edited: ${path} (${occurrences} occurrence(s) found, first one replaced)`;
+  // Replace back to front so earlier offsets stay valid
+  let newContent = content;
+  for (const match of [...selected].reverse()) {
+    newContent =
+      newContent.slice(0, match.start) + newText + newContent.slice(match.end);
+  }
+  await app.vault.modify(file, newContent);
+  checkpoint.push({
+    kind: "modified",
+    path: file.path,
+    previousContent: content,
+  });
+
+  const details =
+    strategy === "exact"
+      ? ""
+      : selected
+          .map((m) => {
+            const similar =
+              strategy === "fuzzy"
+                ? `, ${Math.round(m.similarity * 100)}% similar`
+                : "";
+            return `\nMatched L${lineAt(content, m.start)}-${lineAt(content, m.end)}${similar}:\n${content.slice(m.start, m.end)}`;
+          })
+          .join("");
+  return `File edited: ${path} (${strategy} match, ${selected.length} of ${matches.length} occurrence(s) replaced)${details}`;
 }
 
 async function searchFiles(
-  app: App,
-  args: Record<string, unknown>
+  searchIndex: SearchIndex,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
 ): Promise<string> {
-  const query = (args.query as string)?.toLowerCase();
+  const query = args.query as string;
   const folderPath = (args.path as string) || "";
   const maxResults = (args.maxResults as number) || 20;
+  const maxExcerpts = (args.maxExcerpts as number) || 3;
+  const offset = (args.offset as number) || 0;
 
   if (!query) return "Error: query is required";
 
-  const files = app.vault.getMarkdownFiles();
-  const results: string[] = [];
-
-  for (const file of files) {
-    if (results.length >= maxResults) break;
-    if (folderPath && !file.path.startsWith(normalizePath(folderPath))) {
-      continue;
-    }
+  const folder =
+    folderPath && folderPath !== "/" ? normalizePath(folderPath) : undefined;
+  let results;
+  try {
+    results = await searchIndex.search(query, {
+      folder,
+      include: (path) => pathPolicy.canRead(path),
+      regex: args.regex === true,
+      caseSensitive: args.caseSensitive === true,
+      maxExcerpts,
+      offset,
+      limit: maxResults,
+    });
+  } catch (err) {
+    return `Error: ${err instanceof Error ? err.message : String(err)}`;
+  }
 
-    const content = await app.vault.cachedRead(file);
-    const lowerContent = content.toLowerCase();
-    const idx = lowerContent.indexOf(query);
-
-    if (idx !== -1) {
-      // Get surrounding context
-      const start = Math.max(0, idx - 50);
-      const end = Math.min(content.length, idx + query.length + 50);
-      const excerpt = content.slice(start, end).replace(/\n/g, " ");
-      const lineNum =
-        content.slice(0, idx).split("\n").length;
-      results.push(
-        `${file.path} (line ${lineNum}): ...${excerpt}...`
-      );
-    }
+  if (results.total === 0) {
+    return `No files found matching "${query}".`;
+  }
+  if (results.hits.length === 0) {
+    return `${results.total} file(s) match; offset ${offset} is past the end.`;
   }
 
-  if (results.length === 0) {
-    return `No files found containing "${String(args.query)}".`;
+  const lines = [
+    `${results.total} file(s) match "${query}" (showing ${offset + 1}-${offset + results.hits.length}, most relevant first):`,
+  ];
+  for (const hit of results.hits) {
+    lines.push(`\n${hit.path}`);
+    for (const excerpt of hit.excerpts) {
+      lines.push(`  L${excerpt.line}: ${excerpt.text}`);
+    }
   }
-  return results.join("\n");
+  const footer = pageFooter(offset, results.hits.length, results.total);
+  if (footer) lines.push(`\n${footer}`);
+  return lines.join("\n");
 }
 
 async function deleteFile(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   if (!path) return "Error: path is required";
@@ -463,13 +691,17 @@ async function deleteFile(
     return `Error: File not found: ${path}`;
   }
 
+  const previousContent =
+    file instanceof TFile ? await captureFileContent(app, file) : null;
   await app.fileManager.trashFile(file);
+  checkpoint.push({ kind: "deleted", path: file.path, previousContent });
   return `File deleted (moved to trash): ${path}`;
 }
 
 async function renameFile(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const oldPath = args.oldPath as string;
   const newPath = args.newPath as string;
@@ -482,13 +714,20 @@ async function renameFile(
     return `Error: File not found: ${oldPath}`;
   }
 
+  const previousPath = file.path;
   await app.fileManager.renameFile(file, normalizePath(newPath));
+  checkpoint.push({
+    kind: "renamed",
+    oldPath: previousPath,
+    newPath: file.path,
+  });
   return `File renamed: ${oldPath} -> ${newPath}`;
 }
 
 async function createFolder(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   if (!path) return "Error: path is required";
@@ -499,23 +738,32 @@ async function createFolder(
     return `Folder already exists: ${normalized}`;
   }
 
+  await ensureParentFolders(app, normalized, checkpoint);
   await app.vault.createFolder(normalized);
+  checkpoint.push({ kind: "created", path: normalized, isFolder: true });
   return `Folder created: ${normalized}`;
 }
 
-async function getActiveFile(app: App): Promise<string> {
+async function getActiveFile(
+  app: App,
+  args: Record<string, unknown>,
+  pathPolicy: PathPolicy
+): Promise<string> {
   const file = app.workspace.getActiveFile();
   if (!file) {
     return "No file is currently active.";
   }
+  const denied = pathPolicy.check(file.path, "read");
+  if (denied) return denied;
 
   const content = await app.vault.cachedRead(file);
-  return `Active file: ${file.path}\n\n${content}`;
+  return `Active file: ${file.path}\n\n${readLineRange(file.path, content, args)}`;
 }
 
 async function appendToFile(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   const content = args.content as string;
@@ -531,12 +779,18 @@ async function appendToFile(
   const existing = await app.vault.read(file);
   const newContent = existing + "\n" + content;
   await app.vault.modify(file, newContent);
+  checkpoint.push({
+    kind: "modified",
+    path: file.path,
+    previousContent: existing,
+  });
   return `Content appended to: ${path}`;
 }
 
 async function insertAtLine(
   app: App,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  checkpoint: CheckpointEntry[]
 ): Promise<string> {
   const path = args.path as string;
   const line = args.line as number;
@@ -556,6 +810,11 @@ async function insertAtLine(
   const insertIdx = Math.max(0, Math.min(line - 1, lines.length));
   lines.splice(insertIdx, 0, content);
   await app.vault.modify(file, lines.join("\n"));
+  checkpoint.push({
+    kind: "modified",
+    path: file.path,
+    previousContent: existing,
+  });
 
   return `Content inserted at line ${line} in: ${path}`;
 }
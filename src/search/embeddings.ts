@@ -0,0 +1,173 @@
+// ============================================================
+// Embeddings - Pluggable text-to-vector providers
+// ============================================================
+
+import { ensureValidToken, fetchEmbeddings } from "../copilot/api";
+import type { AuthState, PluginSettings } from "../types";
+import { tokenize } from "./fullText";
+
+const COPILOT_EMBEDDINGS_URL = "https://api.githubcopilot.com/embeddings";
+/** Texts sent per embeddings request */
+const BATCH_SIZE = 32;
+const HASHING_DIMENSIONS = 512;
+
+export interface EmbeddingProvider {
+  /**
+   * Identifies the vector space. Vectors from providers with different ids
+   * cannot be compared, so the index is rebuilt when it changes.
+   */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Scale `vector` to unit length in place so cosine similarity is a dot product */
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+async function embedInBatches(
+  texts: string[],
+  embedBatch: (batch: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts.slice(i, i + BATCH_SIZE);
+    const result = await embedBatch(batch);
+    if (result.length !== batch.length) {
+      throw new Error(
+        `Embeddings endpoint returned ${result.length} vectors for ${batch.length} texts`
+      );
+    }
+    vectors.push(...result.map(normalize));
+  }
+  return vectors;
+}
+
+/** GitHub Copilot's embeddings endpoint, using the signed-in account */
+export class CopilotEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private authState: AuthState;
+  private onAuthUpdate: (auth: Partial<AuthState>) => void;
+  private model: string;
+
+  constructor(
+    authState: AuthState,
+    onAuthUpdate: (auth: Partial<AuthState>) => void,
+    model: string
+  ) {
+    this.authState = authState;
+    this.onAuthUpdate = onAuthUpdate;
+    this.model = model;
+    this.id = `copilot:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const token = await ensureValidToken(this.authState, this.onAuthUpdate);
+    return embedInBatches(texts, (batch) =>
+      fetchEmbeddings(
+        COPILOT_EMBEDDINGS_URL,
+        {
+          Accept: "application/json",
+          "editor-version": "vscode/1.80.1",
+          Authorization: `Bearer ${token}`,
+        },
+        this.model,
+        batch
+      )
+    );
+  }
+}
+
+/** Any OpenAI-compatible `/embeddings` endpoint, e.g. a local Ollama */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private url: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor(endpoint: string, model: string, apiKey: string) {
+    this.url = `${endpoint.replace(/\/+$/, "")}/embeddings`;
+    this.model = model;
+    this.apiKey = apiKey;
+    this.id = `openai:${this.url}:${model}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    return embedInBatches(texts, (batch) =>
+      fetchEmbeddings(this.url, headers, this.model, batch)
+    );
+  }
+}
+
+/** 32-bit FNV-1a */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Offline fallback: words and word pairs hashed into a fixed number of
+ * dimensions. Deterministic and free, but it only matches shared
+ * vocabulary, not meaning.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `hashing:${HASHING_DIMENSIONS}`;
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      if (i > 0) {
+        const pair = `${tokens[i - 1]} ${token}`;
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      // The top bit picks a sign so collisions tend to cancel out
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % HASHING_DIMENSIONS] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+export function createEmbeddingProvider(
+  settings: PluginSettings,
+  onAuthUpdate: (auth: Partial<AuthState>) => void
+): EmbeddingProvider {
+  switch (settings.embeddingProvider) {
+    case "openai":
+      return new OpenAIEmbeddingProvider(
+        settings.embeddingEndpoint,
+        settings.embeddingModel,
+        settings.embeddingApiKey
+      );
+    case "hashing":
+      return new HashingEmbeddingProvider();
+    case "copilot":
+    default:
+      return new CopilotEmbeddingProvider(
+        settings.authState,
+        onAuthUpdate,
+        settings.embeddingModel
+      );
+  }
+}
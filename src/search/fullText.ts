@@ -0,0 +1,479 @@
+// ============================================================
+// Full-Text Search - Incremental BM25 inverted index
+// ============================================================
+
+import { App, TAbstractFile, TFile } from "obsidian";
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+/** Title words count this many times as often as body words */
+const TITLE_WEIGHT = 3;
+/** Files indexed between yields to the UI during the initial build */
+const BUILD_BATCH_SIZE = 200;
+const EXCERPT_RADIUS = 80;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+interface IndexedDoc {
+  length: number;
+  terms: Map<string, number>;
+}
+
+/** One query element: a word, a `prefix*` or a "quoted phrase" */
+interface QueryTerm {
+  tokens: string[];
+  phrase: boolean;
+  prefix: boolean;
+}
+
+/** Index terms a query token matches, optionally as a prefix */
+type Expand = (token: string, prefix: boolean) => string[];
+
+/**
+ * Parsed query: every group must match (AND); a group matches if any of
+ * its terms does (OR). Excluded terms must not match.
+ */
+export interface ParsedQuery {
+  groups: QueryTerm[][];
+  excluded: QueryTerm[];
+}
+
+export interface SearchExcerpt {
+  line: number;
+  text: string;
+}
+
+export interface SearchHit {
+  path: string;
+  score: number;
+  excerpts: SearchExcerpt[];
+}
+
+export interface SearchOptions {
+  folder?: string;
+  /** Skip files this returns false for */
+  include?: (path: string) => boolean;
+  /** Treat the query as a regular expression instead of keywords */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  maxExcerpts: number;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchResults {
+  total: number;
+  hits: SearchHit[];
+}
+
+/**
+ * Parse `term "a phrase" a OR b -excluded NOT excluded prefix*`.
+ * Throws if the query has no positive terms.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const raw = query.match(/-?"[^"]*"?|\S+/g) ?? [];
+  const groups: QueryTerm[][] = [];
+  const excluded: QueryTerm[] = [];
+  let negateNext = false;
+  let orNext = false;
+
+  for (const token of raw) {
+    if (token === "OR") {
+      orNext = groups.length > 0;
+      continue;
+    }
+    if (token === "AND") continue;
+    if (token === "NOT") {
+      negateNext = true;
+      continue;
+    }
+
+    let text = token;
+    let negate = negateNext;
+    negateNext = false;
+    if (text.startsWith("-") && text.length > 1) {
+      negate = true;
+      text = text.slice(1);
+    }
+    const phrase = text.startsWith('"');
+    if (phrase) text = text.replace(/^"|"$/g, "");
+    const prefix = !phrase && text.endsWith("*");
+    if (prefix) text = text.slice(0, -1);
+
+    const tokens = tokenize(text);
+    if (tokens.length === 0) continue;
+    const term: QueryTerm = {
+      tokens,
+      // An unquoted word like "e-mail" is matched as a phrase too
+      phrase: phrase || tokens.length > 1,
+      prefix,
+    };
+
+    if (negate) {
+      excluded.push(term);
+    } else if (orNext) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+    orNext = false;
+  }
+
+  if (groups.length === 0) {
+    throw new Error("The query has no search terms");
+  }
+  return { groups, excluded };
+}
+
+/**
+ * Inverted index over the vault's Markdown files. Built in the background
+ * on first use and kept current from vault events: changed files are only
+ * marked dirty and re-indexed on the next search.
+ */
+export class SearchIndex {
+  private app: App;
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private dirty = new Set<string>();
+  private building: Promise<void> | null = null;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  // --- Maintenance ---
+
+  /**
+   * Index the whole vault; later calls return the same promise. If the
+   * build fails, the next call starts over.
+   */
+  build(): Promise<void> {
+    if (!this.building) {
+      const building = (async () => {
+        const files = this.app.vault.getMarkdownFiles();
+        for (let i = 0; i < files.length; i++) {
+          await this.indexFile(files[i]);
+          if (i % BUILD_BATCH_SIZE === BUILD_BATCH_SIZE - 1) {
+            // Yield so a large vault does not freeze the UI
+            await new Promise((resolve) => window.setTimeout(resolve, 0));
+          }
+        }
+      })();
+      this.building = building;
+      building.catch(() => {
+        if (this.building === building) this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  onCreateOrModify(file: TAbstractFile): void {
+    // Before the build starts, it will pick the file up anyway
+    if (!this.building) return;
+    if (file instanceof TFile && file.extension === "md") {
+      this.dirty.add(file.path);
+    }
+  }
+
+  onDelete(file: TAbstractFile): void {
+    this.removeDoc(file.path);
+    this.dirty.delete(file.path);
+  }
+
+  onRename(file: TAbstractFile, oldPath: string): void {
+    this.removeDoc(oldPath);
+    this.dirty.delete(oldPath);
+    this.onCreateOrModify(file);
+  }
+
+  private async flushDirty(): Promise<void> {
+    const paths = [...this.dirty];
+    this.dirty.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) await this.indexFile(file);
+      else this.removeDoc(path);
+    }
+  }
+
+  private async indexFile(file: TFile): Promise<void> {
+    const content = await this.app.vault.cachedRead(file);
+    this.removeDoc(file.path);
+
+    const terms = new Map<string, number>();
+    const bodyTokens = tokenize(content);
+    for (const token of bodyTokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+    for (const token of tokenize(file.basename)) {
+      terms.set(token, (terms.get(token) ?? 0) + TITLE_WEIGHT);
+    }
+
+    const doc: IndexedDoc = { length: bodyTokens.length, terms };
+    this.docs.set(file.path, doc);
+    this.totalLength += doc.length;
+    for (const [term, tf] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(file.path, tf);
+    }
+  }
+
+  private removeDoc(path: string): void {
+    const doc = this.docs.get(path);
+    if (!doc) return;
+    this.docs.delete(path);
+    this.totalLength -= doc.length;
+    for (const term of doc.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(path);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+  }
+
+  // --- Querying ---
+
+  async search(query: string, options: SearchOptions): Promise<SearchResults> {
+    await this.build();
+    await this.flushDirty();
+    return options.regex
+      ? await this.searchRegex(query, options)
+      : await this.searchKeywords(parseQuery(query), options);
+  }
+
+  /**
+   * Index terms a query term can match: itself, or all with its prefix.
+   * Prefixes scan the whole vocabulary, so each search expands a token
+   * once and reuses the result.
+   */
+  private expander(): Expand {
+    const prefixes = new Map<string, string[]>();
+    return (token, prefix) => {
+      if (!prefix) return this.postings.has(token) ? [token] : [];
+      let terms = prefixes.get(token);
+      if (!terms) {
+        terms = [...this.postings.keys()].filter((t) => t.startsWith(token));
+        prefixes.set(token, terms);
+      }
+      return terms;
+    };
+  }
+
+  /** Paths containing every token of `term` (a superset for phrases) */
+  private candidates(term: QueryTerm, expand: Expand): Set<string> {
+    let result: Set<string> | null = null;
+    for (let i = 0; i < term.tokens.length; i++) {
+      const isLast = i === term.tokens.length - 1;
+      const paths = new Set<string>();
+      for (const t of expand(term.tokens[i], term.prefix && isLast)) {
+        for (const path of this.postings.get(t)?.keys() ?? []) paths.add(path);
+      }
+      result = result ? intersect(result, paths) : paths;
+    }
+    return result ?? new Set();
+  }
+
+  private bm25(path: string, term: QueryTerm, expand: Expand): number {
+    const doc = this.docs.get(path);
+    if (!doc) return 0;
+    const n = this.docs.size;
+    const avgLength = n > 0 ? this.totalLength / n : 0;
+    let score = 0;
+    term.tokens.forEach((token, i) => {
+      const isLast = i === term.tokens.length - 1;
+      for (const t of expand(token, term.prefix && isLast)) {
+        const tf = doc.terms.get(t);
+        if (!tf) continue;
+        const df = this.postings.get(t)?.size ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = 1 - B + (B * doc.length) / (avgLength || 1);
+        score += (idf * tf * (K1 + 1)) / (tf + K1 * norm);
+      }
+    });
+    return score;
+  }
+
+  private async searchKeywords(
+    parsed: ParsedQuery,
+    options: SearchOptions
+  ): Promise<SearchResults> {
+    // AND of OR-groups, using the index only
+    const expand = this.expander();
+    const termPaths = new Map<QueryTerm, Set<string>>();
+    let matches: Set<string> | null = null;
+    for (const group of parsed.groups) {
+      const union = new Set<string>();
+      for (const term of group) {
+        const paths = this.candidates(term, expand);
+        termPaths.set(term, paths);
+        for (const path of paths) union.add(path);
+      }
+      matches = matches ? intersect(matches, union) : union;
+    }
+    let paths = [...(matches ?? [])].filter(
+      (p) => inFolder(p, options.folder) && (options.include?.(p) ?? true)
+    );
+    for (const term of parsed.excluded) {
+      if (term.phrase) continue;
+      const excluded = this.candidates(term, expand);
+      paths = paths.filter((p) => !excluded.has(p));
+    }
+
+    // Phrases need the text: verify them while collecting excerpts
+    const needsText =
+      parsed.groups.some((g) => g.some((t) => t.phrase)) ||
+      parsed.excluded.some((t) => t.phrase);
+
+    const scored = paths
+      .map((path) => ({
+        path,
+        score: parsed.groups
+          .flat()
+          .reduce((sum, term) => sum + this.bm25(path, term, expand), 0),
+      }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+    const matchers = parsed.groups.flat().map(termMatcher);
+    const readHit = async (path: string, score: number) => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) return null;
+      const content = await this.app.vault.cachedRead(file);
+      return {
+        content,
+        title: file.basename,
+        hit: {
+          path,
+          score,
+          excerpts: findExcerpts(content, matchers, options.maxExcerpts),
+        },
+      };
+    };
+
+    const end = options.offset + options.limit;
+    const hits: SearchHit[] = [];
+    if (!needsText) {
+      for (const { path, score } of scored.slice(options.offset, end)) {
+        const read = await readHit(path, score);
+        if (read) hits.push(read.hit);
+      }
+      return { total: scored.length, hits };
+    }
+
+    // Phrases are verified against the text, so every candidate is read
+    // to know the exact total. Titles are indexed, so they count too.
+    let total = 0;
+    for (const { path, score } of scored) {
+      const read = await readHit(path, score);
+      if (!read) continue;
+      const hasPhrase = (term: QueryTerm) => {
+        const matcher = termMatcher(term);
+        return matcher.test(read.content) || matcher.test(read.title);
+      };
+      const groupsOk = parsed.groups.every((group) =>
+        group.some((term) =>
+          term.phrase ? hasPhrase(term) : termPaths.get(term)?.has(path)
+        )
+      );
+      const excludedOk = parsed.excluded
+        .filter((term) => term.phrase)
+        .every((term) => !hasPhrase(term));
+      if (!groupsOk || !excludedOk) continue;
+      if (total >= options.offset && total < end) hits.push(read.hit);
+      total++;
+    }
+    return { total, hits };
+  }
+
+  private async searchRegex(
+    pattern: string,
+    options: SearchOptions
+  ): Promise<SearchResults> {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.caseSensitive ? "g" : "gi");
+    } catch (err) {
+      throw new Error(
+        `Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+
+    const hits: SearchHit[] = [];
+    for (const path of this.docs.keys()) {
+      if (!inFolder(path, options.folder)) continue;
+      if (options.include && !options.include(path)) continue;
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const content = await this.app.vault.cachedRead(file);
+      const count = content.match(regex)?.length ?? 0;
+      if (count === 0) continue;
+      hits.push({
+        path,
+        score: count,
+        excerpts: findExcerpts(
+          content,
+          [new RegExp(pattern, options.caseSensitive ? "" : "i")],
+          options.maxExcerpts
+        ),
+      });
+    }
+    hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    return {
+      total: hits.length,
+      hits: hits.slice(options.offset, options.offset + options.limit),
+    };
+  }
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter((item) => b.has(item)));
+}
+
+function inFolder(path: string, folder: string | undefined): boolean {
+  return !folder || path.startsWith(`${folder}/`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Case-insensitive matcher for a term; phrase tokens may be split by punctuation */
+function termMatcher(term: QueryTerm): RegExp {
+  const parts = term.tokens.map(escapeRegExp);
+  const body = parts.join("[^\\p{L}\\p{N}_]+") + (term.prefix ? "" : "(?![\\p{L}\\p{N}_])");
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}`, "iu");
+}
+
+/** Up to `max` matching lines, each trimmed around the first match. */
+function findExcerpts(
+  content: string,
+  matchers: RegExp[],
+  max: number
+): SearchExcerpt[] {
+  const excerpts: SearchExcerpt[] = [];
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length && excerpts.length < max; i++) {
+    const line = lines[i];
+    let index = -1;
+    for (const matcher of matchers) {
+      const match = matcher.exec(line);
+      if (match && (index === -1 || match.index < index)) index = match.index;
+    }
+    if (index === -1) continue;
+    const start = Math.max(0, index - EXCERPT_RADIUS);
+    const end = Math.min(line.length, index + EXCERPT_RADIUS);
+    excerpts.push({
+      line: i + 1,
+      text: `${start > 0 ? "..." : ""}${line.slice(start, end).trim()}${end < line.length ? "..." : ""}`,
+    });
+  }
+  return excerpts;
+}
@@ -0,0 +1,422 @@
+// ============================================================
+// Semantic Search - Heading-level vector index over the vault
+// ============================================================
+
+import {
+  App,
+  DataAdapter,
+  TAbstractFile,
+  TFile,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  normalizePath,
+} from "obsidian";
+import type { EmbeddingProvider } from "./embeddings";
+
+const INDEX_VERSION = 1;
+/** Sections longer than this are split at paragraph boundaries */
+const MAX_CHUNK_CHARS = 2_000;
+/** Characters of each chunk kept for result previews */
+const PREVIEW_CHARS = 300;
+/** Files embedded per provider call group */
+const SYNC_BATCH_FILES = 16;
+/**
+ * Time between saves during a sync, so an interrupted build keeps its
+ * progress without rewriting the whole index after every batch
+ */
+const SAVE_INTERVAL_MS = 60_000;
+/** Stale files a search embeds before answering; the rest wait for a rebuild */
+const SEARCH_SYNC_FILES = 64;
+
+/** One embeddable piece of a note: the text under a heading */
+export interface NoteChunk {
+  /** "Heading > Subheading", empty for text before the first heading */
+  heading: string;
+  /** 0-indexed line the chunk starts on */
+  line: number;
+  text: string;
+}
+
+interface IndexedChunk {
+  heading: string;
+  line: number;
+  preview: string;
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  mtime: number;
+  chunks: IndexedChunk[];
+}
+
+/** On-disk format; vectors are base64-encoded Float32 arrays */
+interface StoredIndex {
+  version: number;
+  providerId: string;
+  files: Record<
+    string,
+    {
+      mtime: number;
+      chunks: { heading: string; line: number; preview: string; vector: string }[];
+    }
+  >;
+}
+
+export interface SemanticHit {
+  path: string;
+  heading: string;
+  line: number;
+  preview: string;
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  folder?: string;
+  /** Skip files this returns false for */
+  include?: (path: string) => boolean;
+  limit: number;
+  minScore: number;
+  /** Stops embedding stale notes; the search is then cancelled */
+  abortSignal?: AbortSignal;
+}
+
+export interface SemanticSearchResult {
+  hits: SemanticHit[];
+  /** Notes new or changed since they were indexed, left out of or outdated in `hits` */
+  pending: number;
+}
+
+export interface SyncProgress {
+  done: number;
+  total: number;
+}
+
+export interface SyncOptions {
+  onProgress?: (progress: SyncProgress) => void;
+  /** Embed at most this many stale files; the rest stay stale */
+  maxFiles?: number;
+  /** Checked between batches; progress so far is saved */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Split a note into chunks at its headings, using the metadata cache for
+ * heading positions. Frontmatter is skipped, empty sections are dropped
+ * and long sections are split at blank lines.
+ */
+export function chunkNote(app: App, file: TFile, content: string): NoteChunk[] {
+  const cache = app.metadataCache.getFileCache(file);
+  const lines = content.split("\n");
+  const bodyStart = cache?.frontmatterPosition
+    ? cache.frontmatterPosition.end.line + 1
+    : 0;
+
+  // Section boundaries with their full heading path
+  const sections: { heading: string; start: number }[] = [
+    { heading: "", start: bodyStart },
+  ];
+  const stack: { level: number; text: string }[] = [];
+  for (const h of cache?.headings ?? []) {
+    while (stack.length > 0 && stack[stack.length - 1].level >= h.level) {
+      stack.pop();
+    }
+    stack.push({ level: h.level, text: h.heading });
+    sections.push({
+      heading: stack.map((s) => s.text).join(" > "),
+      start: h.position.start.line,
+    });
+  }
+
+  const chunks: NoteChunk[] = [];
+  sections.forEach((section, i) => {
+    const end = sections[i + 1]?.start ?? lines.length;
+    if (end <= section.start) return;
+    let start = section.start;
+    let text = "";
+    for (let l = section.start; l < end; l++) {
+      const line = lines[l];
+      // Split oversized sections at the last paragraph break that fits
+      if (text.length + line.length > MAX_CHUNK_CHARS && text.trim()) {
+        if (!line.trim() || text.length > MAX_CHUNK_CHARS) {
+          chunks.push({ heading: section.heading, line: start, text });
+          start = l;
+          text = "";
+        }
+      }
+      text += `${line}\n`;
+    }
+    chunks.push({ heading: section.heading, line: start, text });
+  });
+
+  return chunks
+    .map((c) => ({ ...c, text: c.text.trim() }))
+    .filter((c) => c.text.length > 0 && !/^#+\s[^\n]*$/.test(c.text));
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Vector index of every Markdown note, split at headings. Stored as JSON
+ * in the plugin folder and brought up to date incrementally: only files
+ * whose modification time changed are re-embedded, and a search embeds
+ * at most SEARCH_SYNC_FILES of them so it stays quick and can be stopped.
+ * Switching embedding provider or model discards the index. Notes
+ * `include` rejects are never embedded, and dropped if already indexed.
+ */
+export class SemanticIndex {
+  private app: App;
+  private adapter: DataAdapter;
+  private path: string;
+  private getProvider: () => EmbeddingProvider;
+  private include: (path: string) => boolean;
+  private providerId: string | null = null;
+  private files = new Map<string, IndexedFile>();
+  private loading: Promise<void> | null = null;
+  private syncing: Promise<number> | null = null;
+
+  constructor(
+    app: App,
+    path: string,
+    getProvider: () => EmbeddingProvider,
+    include: (path: string) => boolean = () => true
+  ) {
+    this.app = app;
+    this.adapter = app.vault.adapter;
+    this.path = normalizePath(path);
+    this.getProvider = getProvider;
+    this.include = include;
+  }
+
+  get chunkCount(): number {
+    let count = 0;
+    for (const file of this.files.values()) count += file.chunks.length;
+    return count;
+  }
+
+  // --- Persistence ---
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        if (!(await this.adapter.exists(this.path))) return;
+        try {
+          const stored = JSON.parse(
+            await this.adapter.read(this.path)
+          ) as StoredIndex;
+          if (stored.version !== INDEX_VERSION) return;
+          this.providerId = stored.providerId;
+          for (const [path, file] of Object.entries(stored.files)) {
+            this.files.set(path, {
+              mtime: file.mtime,
+              chunks: file.chunks.map((c) => ({
+                ...c,
+                vector: new Float32Array(base64ToArrayBuffer(c.vector)),
+              })),
+            });
+          }
+        } catch {
+          // Unreadable index: start over
+          this.files.clear();
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      providerId: this.providerId ?? "",
+      files: {},
+    };
+    for (const [path, file] of this.files) {
+      stored.files[path] = {
+        mtime: file.mtime,
+        chunks: file.chunks.map((c) => ({
+          heading: c.heading,
+          line: c.line,
+          preview: c.preview,
+          vector: arrayBufferToBase64(c.vector.buffer as ArrayBuffer),
+        })),
+      };
+    }
+    await this.adapter.write(this.path, JSON.stringify(stored));
+  }
+
+  // --- Maintenance ---
+
+  onDelete(file: TAbstractFile): void {
+    this.files.delete(file.path);
+  }
+
+  /** Keep the vectors of renamed notes instead of embedding them again */
+  onRename(file: TAbstractFile, oldPath: string): void {
+    const entry = this.files.get(oldPath);
+    if (!entry) return;
+    this.files.delete(oldPath);
+    if (file instanceof TFile && file.extension === "md") {
+      this.files.set(file.path, entry);
+    }
+  }
+
+  /** Drop all vectors; the next sync embeds the whole vault again. */
+  async clear(): Promise<void> {
+    await this.syncing?.catch(() => undefined);
+    await this.load();
+    this.files.clear();
+    this.providerId = null;
+    await this.save();
+  }
+
+  /**
+   * Embed new and changed notes and forget deleted ones. Resolves with the
+   * number of notes still stale. Concurrent calls share one run, with the
+   * options of the first.
+   */
+  sync(options: SyncOptions = {}): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(options).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(options: SyncOptions): Promise<number> {
+    const { onProgress, abortSignal } = options;
+    await this.load();
+    const provider = this.getProvider();
+    let changed = false;
+    if (this.providerId !== provider.id) {
+      this.files.clear();
+      this.providerId = provider.id;
+      changed = true;
+    }
+
+    const current = this.indexableFiles();
+    const existing = new Set(current.map((f) => f.path));
+    for (const path of [...this.files.keys()]) {
+      if (!existing.has(path)) {
+        this.files.delete(path);
+        changed = true;
+      }
+    }
+
+    const stale = this.staleFiles(current);
+    const total = Math.min(stale.length, options.maxFiles ?? stale.length);
+    let lastSave = Date.now();
+    try {
+      for (let i = 0; i < total; i += SYNC_BATCH_FILES) {
+        if (abortSignal?.aborted) throw new Error("Request aborted");
+        onProgress?.({ done: i, total });
+        await this.embedFiles(
+          provider,
+          stale.slice(i, Math.min(i + SYNC_BATCH_FILES, total))
+        );
+        changed = true;
+        if (Date.now() - lastSave >= SAVE_INTERVAL_MS) {
+          await this.save();
+          lastSave = Date.now();
+        }
+      }
+      onProgress?.({ done: total, total });
+    } finally {
+      if (changed) await this.save();
+    }
+    return stale.length - total;
+  }
+
+  private indexableFiles(): TFile[] {
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((f) => this.include(f.path));
+  }
+
+  private staleFiles(files: TFile[]): TFile[] {
+    if (this.providerId !== this.getProvider().id) return files;
+    return files.filter((f) => this.files.get(f.path)?.mtime !== f.stat.mtime);
+  }
+
+  private async embedFiles(
+    provider: EmbeddingProvider,
+    files: TFile[]
+  ): Promise<void> {
+    const pending: { file: TFile; chunks: NoteChunk[] }[] = [];
+    const inputs: string[] = [];
+    for (const file of files) {
+      const chunks = chunkNote(this.app, file, await this.app.vault.cachedRead(file));
+      pending.push({ file, chunks });
+      for (const chunk of chunks) {
+        // The title and heading path carry much of a section's meaning
+        const title = chunk.heading
+          ? `${file.basename} > ${chunk.heading}`
+          : file.basename;
+        inputs.push(`${title}\n\n${chunk.text}`);
+      }
+    }
+
+    const vectors = inputs.length > 0 ? await provider.embed(inputs) : [];
+    let next = 0;
+    for (const { file, chunks } of pending) {
+      this.files.set(file.path, {
+        mtime: file.stat.mtime,
+        chunks: chunks.map((chunk) => ({
+          heading: chunk.heading,
+          line: chunk.line,
+          preview: chunk.text.slice(0, PREVIEW_CHARS),
+          vector: new Float32Array(vectors[next++]),
+        })),
+      });
+    }
+  }
+
+  // --- Querying ---
+
+  async search(
+    query: string,
+    options: SemanticSearchOptions
+  ): Promise<SemanticSearchResult> {
+    // A running rebuild is not waited for: search what is indexed so far
+    let pending: number;
+    if (this.syncing) {
+      await this.load();
+      pending = this.staleFiles(this.indexableFiles()).length;
+    } else {
+      pending = await this.sync({
+        maxFiles: SEARCH_SYNC_FILES,
+        abortSignal: options.abortSignal,
+      });
+    }
+    const provider = this.getProvider();
+    const [embedded] = await provider.embed([query]);
+    const queryVector = new Float32Array(embedded);
+
+    const hits: SemanticHit[] = [];
+    for (const [path, file] of this.files) {
+      if (options.folder && !path.startsWith(`${options.folder}/`)) continue;
+      if (options.include && !options.include(path)) continue;
+      for (const chunk of file.chunks) {
+        if (chunk.vector.length !== queryVector.length) {
+          throw new Error(
+            "The semantic index was built with a different embedding model; rebuild it in settings"
+          );
+        }
+        const score = dot(queryVector, chunk.vector);
+        if (score < options.minScore) continue;
+        hits.push({
+          path,
+          heading: chunk.heading,
+          line: chunk.line,
+          preview: chunk.preview,
+          score,
+        });
+      }
+    }
+    hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    return { hits: hits.slice(0, options.limit), pending };
+  }
+}
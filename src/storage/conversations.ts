@@ -0,0 +1,205 @@
+// ============================================================
+// Conversation Store - Persists chat sessions in the plugin folder
+// ============================================================
+
+import { DataAdapter, normalizePath } from "obsidian";
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+} from "../types";
+
+const INDEX_FILE = "index.json";
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Derive a conversation title from the first user message:
+ * first non-empty line, collapsed whitespace, truncated.
+ */
+export function makeConversationTitle(text: string): string {
+  const firstLine =
+    text
+      .split("\n")
+      .map((l) => l.trim())
+      .find((l) => l.length > 0) ?? "";
+  const collapsed = firstLine.replace(/\s+/g, " ");
+  if (!collapsed) return "New chat";
+  return collapsed.length > TITLE_MAX_LENGTH
+    ? collapsed.slice(0, TITLE_MAX_LENGTH - 1) + "…"
+    : collapsed;
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  const { messages, ...meta } = conversation;
+  return { ...meta, messageCount: messages.length };
+}
+
+function messageMatches(msg: ConversationMessage, query: string): boolean {
+  return (
+    (msg.role === "user" || msg.role === "assistant") &&
+    msg.content.toLowerCase().includes(query)
+  );
+}
+
+/**
+ * Stores each conversation as `<dir>/<id>.json` plus an `index.json`
+ * of summaries so the history list can render without loading every
+ * transcript.
+ */
+export class ConversationStore {
+  private adapter: DataAdapter;
+  private dir: string;
+  private index: ConversationSummary[] | null = null;
+  /** Writes run one at a time so an older snapshot never lands last */
+  private queue: Promise<void> = Promise.resolve();
+  /** Saves waiting in the queue, updated to the latest snapshot */
+  private queuedSaves = new Map<
+    string,
+    { conversation: Conversation; done: Promise<void> }
+  >();
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = normalizePath(dir);
+  }
+
+  /** All conversations, most recently updated first. */
+  async list(): Promise<ConversationSummary[]> {
+    const index = await this.loadIndex();
+    return [...index].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Case-insensitive search over titles and message text.
+   * Title matches are listed before content-only matches.
+   */
+  async search(query: string): Promise<ConversationSummary[]> {
+    const all = await this.list();
+    const q = query.trim().toLowerCase();
+    if (!q) return all;
+
+    const titleMatches: ConversationSummary[] = [];
+    const contentMatches: ConversationSummary[] = [];
+    for (const summary of all) {
+      if (summary.title.toLowerCase().includes(q)) {
+        titleMatches.push(summary);
+        continue;
+      }
+      const conversation = await this.load(summary.id);
+      if (conversation?.messages.some((m) => messageMatches(m, q))) {
+        contentMatches.push(summary);
+      }
+    }
+    return [...titleMatches, ...contentMatches];
+  }
+
+  async load(id: string): Promise<Conversation | null> {
+    const path = this.conversationPath(id);
+    if (!(await this.adapter.exists(path))) return null;
+    try {
+      return JSON.parse(await this.adapter.read(path)) as Conversation;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Queue a write of the conversation. Saves of the same conversation
+   * that have not started yet are coalesced into one with the latest
+   * snapshot; the returned promise rejects if that write fails.
+   */
+  save(conversation: Conversation): Promise<void> {
+    const queued = this.queuedSaves.get(conversation.id);
+    if (queued) {
+      queued.conversation = conversation;
+      return queued.done;
+    }
+    const entry = { conversation, done: Promise.resolve() };
+    entry.done = this.enqueue(() => {
+      this.queuedSaves.delete(conversation.id);
+      return this.write(entry.conversation);
+    });
+    this.queuedSaves.set(conversation.id, entry);
+    return entry.done;
+  }
+
+  rename(id: string, title: string): Promise<void> {
+    return this.enqueue(async () => {
+      const conversation = await this.load(id);
+      if (!conversation) return;
+      conversation.title = title.trim() || conversation.title;
+      await this.write(conversation);
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const path = this.conversationPath(id);
+      if (await this.adapter.exists(path)) {
+        await this.adapter.remove(path);
+      }
+      const index = await this.loadIndex();
+      this.index = index.filter((s) => s.id !== id);
+      await this.writeIndex();
+    });
+  }
+
+  // --- Internal ---
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // A failed write must not block the ones after it
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async write(conversation: Conversation): Promise<void> {
+    await this.ensureDir();
+    await this.adapter.write(
+      this.conversationPath(conversation.id),
+      JSON.stringify(conversation)
+    );
+
+    const index = await this.loadIndex();
+    const summary = toSummary(conversation);
+    const existing = index.findIndex((s) => s.id === conversation.id);
+    if (existing >= 0) {
+      index[existing] = summary;
+    } else {
+      index.push(summary);
+    }
+    await this.writeIndex();
+  }
+
+  private conversationPath(id: string): string {
+    return normalizePath(`${this.dir}/${id}.json`);
+  }
+
+  private async ensureDir(): Promise<void> {
+    if (!(await this.adapter.exists(this.dir))) {
+      await this.adapter.mkdir(this.dir);
+    }
+  }
+
+  private async loadIndex(): Promise<ConversationSummary[]> {
+    if (this.index) return this.index;
+
+    const path = normalizePath(`${this.dir}/${INDEX_FILE}`);
+    try {
+      this.index = (await this.adapter.exists(path))
+        ? (JSON.parse(await this.adapter.read(path)) as ConversationSummary[])
+        : [];
+    } catch {
+      this.index = [];
+    }
+    return this.index;
+  }
+
+  private async writeIndex(): Promise<void> {
+    await this.ensureDir();
+    await this.adapter.write(
+      normalizePath(`${this.dir}/${INDEX_FILE}`),
+      JSON.stringify(this.index ?? [])
+    );
+  }
+}
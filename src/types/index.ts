@@ -45,6 +45,8 @@ export interface AuthState {
 export interface ModelOption {
   label: string;
   value: string;
+  /** Prompt size limit in tokens; DEFAULT_MAX_PROMPT_TOKENS if unknown */
+  maxPromptTokens?: number;
 }
 
 // --- Chat Messages ---
@@ -118,7 +120,34 @@ export type ToolCallStatus =
   | "running"
   | "success"
   | "error"
-  | "rejected";
+  | "rejected"
+  | "cancelled";
+
+// --- Diffs ---
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+  /** 1-indexed line number in the old file (null for added lines) */
+  oldLine: number | null;
+  /** 1-indexed line number in the new file (null for removed lines) */
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
 
 export interface ToolCallResult {
   toolCallId: string;
@@ -127,8 +156,105 @@ export interface ToolCallResult {
   status: ToolCallStatus;
   result?: string;
   error?: string;
+  /** Before/after diffs of files this call created or modified */
+  diffs?: FileDiff[];
+}
+
+/**
+ * Per-tool approval policy:
+ * - "allow": run immediately
+ * - "ask": pause until the user approves or rejects the call
+ * - "deny": never run; the model is told the tool is disabled
+ */
+export type ToolApprovalPolicy = "allow" | "ask" | "deny";
+
+// --- Checkpoints ---
+
+/**
+ * One vault mutation made by a tool call, with enough prior state to undo it.
+ * A `previousContent` of null on a deletion means the file could not be
+ * captured (binary file or folder) and cannot be restored.
+ */
+export type CheckpointEntry =
+  | { kind: "created"; path: string; isFolder: boolean }
+  | { kind: "modified"; path: string; previousContent: string }
+  | { kind: "renamed"; oldPath: string; newPath: string }
+  | { kind: "deleted"; path: string; previousContent: string | null };
+
+export interface TurnCheckpoint {
+  /** Mutations in the order they were applied */
+  entries: CheckpointEntry[];
+  revertedAt?: number;
+}
+
+// --- Dry Runs ---
+
+/** One file or folder a dry run would change, relative to the real vault */
+export interface DryRunChange {
+  kind: "created" | "modified" | "renamed" | "deleted";
+  path: string;
+  /** renamed: where the file is now */
+  oldPath?: string;
+  isFolder: boolean;
+  /** Content in the vault; null for new files, folders, binaries and pure moves */
+  before: string | null;
+  /** Content after the run; null for deletions, folders and pure moves */
+  after: string | null;
+}
+
+export interface DryRunChangeset {
+  /** In the order they are applied */
+  changes: DryRunChange[];
+  /** When the user applied or discarded the changeset */
+  resolvedAt?: number;
+  /** Indexes into `changes` that were applied */
+  applied?: number[];
+}
+
+// --- External MCP Servers ---
+
+export type ExternalMcpTransport = "stdio" | "http";
+
+export interface ExternalMcpServerConfig {
+  id: string;
+  /** Display name, also used to namespace the server's tools */
+  name: string;
+  enabled: boolean;
+  transport: ExternalMcpTransport;
+  /** stdio: executable to spawn */
+  command: string;
+  /** stdio: one argument per entry */
+  args: string[];
+  /** stdio: extra environment variables */
+  env: Record<string, string>;
+  /** http: streamable HTTP endpoint */
+  url: string;
+  /** http: extra request headers, e.g. Authorization */
+  headers: Record<string, string>;
+  /** Policy for this server's tools unless overridden per tool */
+  approvalPolicy: ToolApprovalPolicy;
 }
 
+// --- Semantic Search ---
+
+/**
+ * Where note embeddings come from:
+ * - "copilot": the Copilot embeddings endpoint (uses the signed-in account)
+ * - "openai": any OpenAI-compatible `/embeddings` endpoint, e.g. Ollama
+ * - "hashing": deterministic offline embedder; no network, weaker results
+ */
+export type EmbeddingProviderKind = "copilot" | "openai" | "hashing";
+
+// --- Chat Modes ---
+
+/**
+ * What the model may do during a turn:
+ * - "ask": read and search only
+ * - "plan": read, then propose numbered changes the user can execute
+ * - "agent": use every tool
+ */
+export type ChatMode = "ask" | "plan" | "agent";
+
 // --- Conversation ---
 
 export interface ConversationMessage {
@@ -139,6 +265,19 @@ export interface ConversationMessage {
   toolCalls?: ToolCall[];
   toolCallId?: string;
   toolResults?: ToolCallResult[];
+  /** Vault changes made during the turn this assistant message ends */
+  checkpoint?: TurnCheckpoint;
+  /** Always sent to the model, even after older history is compacted */
+  pinned?: boolean;
+  /**
+   * Summary of this message and everything before it. Once the context
+   * window fills up it is sent instead of those messages.
+   */
+  contextSummary?: string;
+  /** Plan mode: this reply lists proposed changes the user can execute */
+  proposedPlan?: boolean;
+  /** Dry run: what the turn would have changed, waiting to be applied */
+  changeset?: DryRunChangeset;
 }
 
 export interface Conversation {
@@ -150,6 +289,31 @@ export interface Conversation {
   updatedAt: number;
 }
 
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  model: ModelOption;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+// --- Path Policy ---
+
+/**
+ * Which vault paths tools may touch. Each entry is a glob ("*" within a
+ * folder, "**" across folders); a pattern matching a folder covers
+ * everything inside it.
+ */
+export interface PathPolicyRules {
+  /** Paths tools may access; empty allows the whole vault */
+  allow: string[];
+  /** Paths tools may never access; wins over `allow` */
+  deny: string[];
+  /** Paths tools may read but not create, change, move or delete */
+  readOnly: string[];
+}
+
 // --- Settings ---
 
 export interface PluginSettings {
@@ -157,7 +321,26 @@ export interface PluginSettings {
   selectedModel: ModelOption;
   systemPrompt: string;
   maxAutoIterations: number;
+  /** Read-only tool calls from one response that may run at the same time */
+  toolConcurrency: number;
   enableTools: boolean;
+  /** Mode selected in the chat header */
+  chatMode: ChatMode;
+  /** User choices; tools without one fall back to their registered default */
+  toolApprovalPolicies: Record<string, ToolApprovalPolicy>;
+  mcpServerEnabled: boolean;
+  mcpServerPort: number;
+  mcpServerToken: string;
+  externalMcpServers: ExternalMcpServerConfig[];
+  embeddingProvider: EmbeddingProviderKind;
+  /** Embedding model for the copilot and openai providers */
+  embeddingModel: string;
+  /** openai provider: base URL, `/embeddings` is appended */
+  embeddingEndpoint: string;
+  /** openai provider: optional bearer token */
+  embeddingApiKey: string;
+  /** Vault areas tools may read and change; the config folder and trash are always off limits */
+  pathPolicy: PathPolicyRules;
   debug: boolean;
 }
 
@@ -173,23 +356,35 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   selectedModel: { label: "GPT-4o", value: "gpt-4o" },
   systemPrompt: "",
   maxAutoIterations: 5,
+  toolConcurrency: 4,
   enableTools: true,
+  chatMode: "agent",
+  toolApprovalPolicies: {},
+  mcpServerEnabled: false,
+  mcpServerPort: 27150,
+  mcpServerToken: "",
+  externalMcpServers: [],
+  embeddingProvider: "copilot",
+  embeddingModel: "text-embedding-3-small",
+  embeddingEndpoint: "http://localhost:11434/v1",
+  embeddingApiKey: "",
+  pathPolicy: { allow: [], deny: [], readOnly: [] },
   debug: false,
 };
 
 // --- Available Models ---
 
 export const AVAILABLE_MODELS: ModelOption[] = [
-  { label: "GPT-4o", value: "gpt-4o" },
-  { label: "GPT-4o Mini", value: "gpt-4o-mini" },
-  { label: "GPT-4.1", value: "gpt-4.1-2025-04-14" },
-  { label: "GPT-4.1 Mini", value: "gpt-4.1-mini" },
-  { label: "Claude Sonnet 4", value: "claude-sonnet-4" },
-  { label: "Claude Sonnet 4.5", value: "claude-sonnet-4.5" },
-  { label: "Claude Haiku 4.5", value: "claude-haiku-4.5" },
-  { label: "Gemini 2.5 Pro", value: "gemini-2.5-pro" },
-  { label: "o3 Mini", value: "o3-mini" },
-  { label: "o4 Mini", value: "o4-mini" },
+  { label: "GPT-4o", value: "gpt-4o", maxPromptTokens: 64_000 },
+  { label: "GPT-4o Mini", value: "gpt-4o-mini", maxPromptTokens: 64_000 },
+  { label: "GPT-4.1", value: "gpt-4.1-2025-04-14", maxPromptTokens: 128_000 },
+  { label: "GPT-4.1 Mini", value: "gpt-4.1-mini", maxPromptTokens: 128_000 },
+  { label: "Claude Sonnet 4", value: "claude-sonnet-4", maxPromptTokens: 128_000 },
+  { label: "Claude Sonnet 4.5", value: "claude-sonnet-4.5", maxPromptTokens: 128_000 },
+  { label: "Claude Haiku 4.5", value: "claude-haiku-4.5", maxPromptTokens: 128_000 },
+  { label: "Gemini 2.5 Pro", value: "gemini-2.5-pro", maxPromptTokens: 128_000 },
+  { label: "o3 Mini", value: "o3-mini", maxPromptTokens: 64_000 },
+  { label: "o4 Mini", value: "o4-mini", maxPromptTokens: 128_000 },
 ];
 
 export const COPILOT_CLIENT_ID = "Ov23liclmrr3b8tQdNjK";
@@ -21,14 +21,50 @@ import {
     WorkspaceLeaf,
 } from "obsidian";
 import type CopilotMCPPlugin from "../main";
-import type { ConversationMessage, ToolCallResult } from "../types";
+import type {
+    ChatMode,
+    CheckpointEntry,
+    ConversationMessage,
+    ConversationSummary,
+    DiffHunk,
+    DiffLine,
+    DryRunChange,
+    FileDiff,
+    ToolCallResult,
+} from "../types";
 import { AVAILABLE_MODELS } from "../types";
 import { fetchAvailableModels } from "../copilot/api";
 import { fetchDeviceCode, fetchPAT, fetchToken } from "../copilot/api";
-import { runChatEngine } from "../copilot/engine";
+import { generateId, runChatEngine } from "../copilot/engine";
+import type { RetryInfo } from "../copilot/retry";
+import { makeConversationTitle } from "../storage/conversations";
+import { revertCheckpoint } from "../mcp/checkpoints";
+import { applyDryRunChanges } from "../mcp/overlay";
+import { computeFileDiff } from "../utils/diff";
 
 export const CHAT_VIEW_TYPE = "github-copilot-mcp-chat";
 
+const CHAT_MODES: { value: ChatMode; label: string; title: string }[] = [
+    {
+        value: "ask",
+        label: "Ask",
+        title: "Read-only: the model can read and search but not change the vault",
+    },
+    {
+        value: "plan",
+        label: "Plan",
+        title: "The model proposes a numbered list of changes for you to execute",
+    },
+    {
+        value: "agent",
+        label: "Agent",
+        title: "The model can use every enabled tool",
+    },
+];
+
+/** Sent when the user executes a plan proposed in Plan mode */
+const EXECUTE_PLAN_PROMPT = "Execute the plan above.";
+
 // ============================================================
 // Obsidian ItemView Wrapper
 // ============================================================
@@ -39,6 +75,8 @@ export class ChatView extends ItemView {
     private _abortController: AbortController | null = null;
     /** Registered by the React component — call to reset the conversation */
     public newChatCallback: (() => void) | null = null;
+    /** Registered by the React component — reverts the last N agent turns */
+    public revertTurnsCallback: ((count: number) => void) | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: CopilotMCPPlugin) {
         super(leaf);
@@ -242,9 +280,26 @@ function AuthView({ onSignIn }: { onSignIn: () => void }) {
 // ============================================================
 
 interface LiveToolCall {
+    toolCallId: string;
     toolName: string;
     args: Record<string, unknown>;
     status: string;
+    awaitingApproval: boolean;
+}
+
+type ApprovalDecision = "approve" | "reject" | "always";
+
+/** A failed request waiting to be sent again */
+interface RetryStatus extends RetryInfo {
+    /** When the next attempt starts */
+    retryAt: number;
+}
+
+/** Identity of the conversation currently shown, before it is persisted */
+interface ActiveConversation {
+    id: string;
+    title: string;
+    createdAt: number;
 }
 
 function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
@@ -254,14 +309,38 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
     >([]);
     const [availableModels, setAvailableModels] = useState(AVAILABLE_MODELS);
     const [isProcessing, setIsProcessing] = useState(false);
+    const [isStopping, setIsStopping] = useState(false);
     const [inputValue, setInputValue] = useState("");
     const [streamingContent, setStreamingContent] = useState("");
     const [isStreaming, setIsStreaming] = useState(false);
     const [liveToolCalls, setLiveToolCalls] = useState<LiveToolCall[]>([]);
+    const [retryStatus, setRetryStatus] = useState<RetryStatus | null>(null);
+    const [activeConversation, setActiveConversation] =
+        useState<ActiveConversation | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [mode, setMode] = useState<ChatMode>(plugin.settings.chatMode);
+    const [dryRun, setDryRun] = useState(false);
     const abortRef = useRef<AbortController | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
     const streamingAccumRef = useRef("");
+    const approvalResolversRef = useRef(
+        new Map<string, (approved: boolean) => void>(),
+    );
+    const saveFailedRef = useRef(false);
+
+    // Cancel any in-flight request when the view is closed, and deny
+    // pending approvals so the engine is not left waiting on them
+    useEffect(() => {
+        const approvalResolvers = approvalResolversRef.current;
+        return () => {
+            abortRef.current?.abort();
+            for (const resolve of approvalResolvers.values()) {
+                resolve(false);
+            }
+            approvalResolvers.clear();
+        };
+    }, []);
 
     const scrollToBottom = useCallback(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -272,12 +351,95 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
     }, [conversationHistory, streamingContent, liveToolCalls, scrollToBottom]);
 
     const handleNewChat = () => {
+        // The running turn would land in the new conversation
+        if (isProcessing) {
+            new Notice("Stop the current request before starting a new chat");
+            return;
+        }
         setConversationHistory([]);
+        setActiveConversation(null);
+        setShowHistory(false);
         setStreamingContent("");
         setIsStreaming(false);
         setLiveToolCalls([]);
     };
 
+    const openConversation = useCallback(
+        async (id: string) => {
+            const conversation = await plugin.conversations.load(id);
+            if (!conversation) {
+                new Notice("Conversation not found");
+                return;
+            }
+            setConversationHistory(conversation.messages);
+            setActiveConversation({
+                id: conversation.id,
+                title: conversation.title,
+                createdAt: conversation.createdAt,
+            });
+            plugin.settings.selectedModel = conversation.model;
+            void plugin.saveSettings();
+            setShowHistory(false);
+        },
+        [plugin],
+    );
+
+    // Reopen the most recent conversation when the view is (re)opened
+    useEffect(() => {
+        void plugin.conversations.list().then((all) => {
+            if (all.length > 0) void openConversation(all[0].id);
+        });
+    }, []);
+
+    // Persist the active conversation whenever its messages change
+    useEffect(() => {
+        if (!activeConversation || conversationHistory.length === 0) return;
+        const last = conversationHistory[conversationHistory.length - 1];
+        plugin.conversations
+            .save({
+                ...activeConversation,
+                model: plugin.settings.selectedModel,
+                messages: conversationHistory,
+                updatedAt: last.timestamp,
+            })
+            .then(
+                () => {
+                    saveFailedRef.current = false;
+                },
+                (err: unknown) => {
+                    console.error("Failed to save conversation", err);
+                    // One notice per run of failures, not one per message
+                    if (saveFailedRef.current) return;
+                    saveFailedRef.current = true;
+                    new Notice(
+                        `Could not save the conversation: ${err instanceof Error ? err.message : String(err)}`,
+                    );
+                },
+            );
+    }, [conversationHistory, activeConversation, plugin]);
+
+    // Pinned messages survive context compaction. Not while a turn runs:
+    // the engine tracks its messages by identity.
+    const togglePin = (msg: ConversationMessage) => {
+        if (isProcessing) return;
+        setConversationHistory((prev) =>
+            prev.map((m) => (m === msg ? { ...m, pinned: !m.pinned } : m)),
+        );
+    };
+
+    const handleConversationRenamed = (id: string, title: string) => {
+        if (activeConversation?.id === id) {
+            setActiveConversation({ ...activeConversation, title });
+        }
+    };
+
+    const handleConversationDeleted = (id: string) => {
+        if (activeConversation?.id === id) {
+            setConversationHistory([]);
+            setActiveConversation(null);
+        }
+    };
+
     // Fetch dynamic model list from Copilot API on mount
     useEffect(() => {
         fetchAvailableModels(plugin.settings.authState, (auth) => {
@@ -292,11 +454,105 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
             });
     }, []);
 
-    // Expose handleNewChat to the ItemView class (used by main.ts "New Chat" command)
+    const revertTurns = async (targets: ConversationMessage[]) => {
+        if (targets.length === 0) {
+            new Notice("No agent changes to revert");
+            return;
+        }
+
+        const failures: string[] = [];
+        const revertedAt = Date.now();
+        const revertedIds = new Set<string>();
+        // Newest turn first so later edits are undone before earlier ones
+        for (const target of targets) {
+            if (!target.checkpoint) continue;
+            failures.push(...(await revertCheckpoint(app, target.checkpoint)));
+            revertedIds.add(target.id);
+        }
+
+        setConversationHistory((prev) =>
+            prev.map((m) =>
+                revertedIds.has(m.id) && m.checkpoint
+                    ? { ...m, checkpoint: { ...m.checkpoint, revertedAt } }
+                    : m,
+            ),
+        );
+
+        if (failures.length > 0) {
+            new Notice(
+                `Reverted with ${failures.length} problem(s):\n${failures.join("\n")}`,
+            );
+        } else {
+            new Notice(`Reverted ${revertedIds.size} turn(s)`);
+        }
+    };
+
+    const resolveChangeset = async (
+        target: ConversationMessage,
+        selected: number[],
+    ) => {
+        if (!target.changeset) return;
+        const changes = target.changeset.changes;
+        const entries: CheckpointEntry[] = [];
+        const failures = await applyDryRunChanges(
+            app,
+            selected.map((i) => changes[i]),
+            entries,
+        );
+        const resolvedAt = Date.now();
+
+        setConversationHistory((prev) =>
+            prev.map((m) =>
+                m.id === target.id && m.changeset
+                    ? {
+                          ...m,
+                          changeset: {
+                              ...m.changeset,
+                              resolvedAt,
+                              applied: selected,
+                          },
+                          // Applied changes can be reverted like a normal turn
+                          checkpoint:
+                              entries.length > 0 ? { entries } : m.checkpoint,
+                      }
+                    : m,
+            ),
+        );
+
+        if (failures.length > 0) {
+            new Notice(
+                `Applied with ${failures.length} problem(s):\n${failures.join("\n")}`,
+            );
+        } else if (selected.length > 0) {
+            new Notice(`Applied ${selected.length} change(s)`);
+        }
+    };
+
+    const handleRevertLastTurns = (count: number) => {
+        if (isProcessing) {
+            new Notice("Stop the current request before reverting");
+            return;
+        }
+        const targets = conversationHistory
+            .filter(
+                (m) =>
+                    m.checkpoint &&
+                    !m.checkpoint.revertedAt &&
+                    m.checkpoint.entries.length > 0,
+            )
+            .reverse()
+            .slice(0, count);
+        void revertTurns(targets);
+    };
+
+    // Expose callbacks to the ItemView class (used by main.ts commands)
     useEffect(() => {
-        (component as ChatView).newChatCallback = handleNewChat;
+        const view = component as ChatView;
+        view.newChatCallback = handleNewChat;
+        view.revertTurnsCallback = handleRevertLastTurns;
         return () => {
-            (component as ChatView).newChatCallback = null;
+            view.newChatCallback = null;
+            view.revertTurnsCallback = null;
         };
     });
 
@@ -308,6 +564,7 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
         };
         void plugin.saveSettings();
         setConversationHistory([]);
+        setActiveConversation(null);
         new Notice("Signed out");
         onSignOut();
     };
@@ -324,15 +581,52 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
         }
     };
 
+    const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const selected = e.target.value as ChatMode;
+        setMode(selected);
+        plugin.settings.chatMode = selected;
+        void plugin.saveSettings();
+    };
+
+    const resolveAllApprovals = (approved: boolean) => {
+        for (const resolve of approvalResolversRef.current.values()) {
+            resolve(approved);
+        }
+        approvalResolversRef.current.clear();
+    };
+
+    const handleApproval = (
+        toolCallId: string,
+        toolName: string,
+        decision: ApprovalDecision,
+    ) => {
+        if (decision === "always") {
+            plugin.settings.toolApprovalPolicies[toolName] = "allow";
+            void plugin.saveSettings();
+        }
+        const resolve = approvalResolversRef.current.get(toolCallId);
+        approvalResolversRef.current.delete(toolCallId);
+        resolve?.(decision !== "reject");
+    };
+
     const handleSend = useCallback(
-        async (text?: string) => {
+        async (text?: string, modeOverride?: ChatMode) => {
             const msg = (text ?? inputValue).trim();
             if (!msg || isProcessing) return;
 
             setIsProcessing(true);
             setInputValue("");
+            setShowHistory(false);
             streamingAccumRef.current = "";
 
+            if (!activeConversation) {
+                setActiveConversation({
+                    id: generateId(),
+                    title: makeConversationTitle(msg),
+                    createdAt: Date.now(),
+                });
+            }
+
             abortRef.current = new AbortController();
 
             const toolResultsMap = new Map<string, ToolCallResult>();
@@ -347,17 +641,26 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                         model: plugin.settings.selectedModel,
                         systemPrompt: plugin.settings.systemPrompt,
                         maxIterations: plugin.settings.maxAutoIterations,
+                        toolConcurrency: plugin.settings.toolConcurrency,
                         enableTools: plugin.settings.enableTools,
+                        mode: modeOverride ?? mode,
+                        dryRun,
+                        toolApprovalPolicies:
+                            plugin.settings.toolApprovalPolicies,
+                        registry: plugin.tools,
+                        pathPolicy: plugin.pathPolicy,
                         onAuthUpdate: (auth) => {
                             Object.assign(plugin.settings.authState, auth);
                             void plugin.saveSettings();
                         },
                         onContentDelta: (delta) => {
+                            setRetryStatus(null);
                             streamingAccumRef.current += delta;
                             setStreamingContent(streamingAccumRef.current);
                             setIsStreaming(true);
                         },
                         onMessage: (msgs) => {
+                            setRetryStatus(null);
                             for (const m of msgs) {
                                 if (m.role === "assistant" && m.toolCalls) {
                                     m.toolResults = m.toolCalls
@@ -390,42 +693,66 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                         onToolCall: (result) => {
                             toolResultsMap.set(result.toolCallId, result);
                             const statusText =
-                                result.status === "running"
-                                    ? "Running..."
-                                    : result.status === "success"
-                                        ? "Done"
-                                        : `Error: ${result.error}`;
-                            const key =
-                                result.toolName +
-                                ":" +
-                                JSON.stringify(result.args);
+                                result.status === "pending"
+                                    ? "Awaiting approval"
+                                    : result.status === "running"
+                                        ? "Running..."
+                                        : result.status === "success"
+                                            ? "Done"
+                                            : result.status === "rejected"
+                                                ? "Rejected"
+                                                : result.status === "cancelled"
+                                                  ? "Cancelled"
+                                                  : `Error: ${result.error}`;
+                            const awaitingApproval =
+                                result.status === "pending";
                             setLiveToolCalls((prev) => {
                                 const existing = prev.findIndex(
-                                    (tc) =>
-                                        tc.toolName +
-                                            ":" +
-                                            JSON.stringify(tc.args) ===
-                                        key,
+                                    (tc) => tc.toolCallId === result.toolCallId,
                                 );
                                 if (existing >= 0) {
                                     const updated = [...prev];
                                     updated[existing] = {
                                         ...updated[existing],
                                         status: statusText,
+                                        awaitingApproval,
                                     };
                                     return updated;
                                 }
                                 return [
                                     ...prev,
                                     {
+                                        toolCallId: result.toolCallId,
                                         toolName: result.toolName,
                                         args: result.args,
                                         status: statusText,
+                                        awaitingApproval,
                                     },
                                 ];
                             });
                         },
+                        onContextSummary: (messageId, summary) => {
+                            setConversationHistory((prev) =>
+                                prev.map((m) =>
+                                    m.id === messageId
+                                        ? { ...m, contextSummary: summary }
+                                        : m,
+                                ),
+                            );
+                        },
+                        onApprovalRequest: (result) =>
+                            new Promise<boolean>((resolve) => {
+                                approvalResolversRef.current.set(
+                                    result.toolCallId,
+                                    resolve,
+                                );
+                            }),
                         onError: (err) => new Notice(`Copilot error: ${err}`),
+                        onRetry: (info) =>
+                            setRetryStatus({
+                                ...info,
+                                retryAt: Date.now() + info.delayMs,
+                            }),
                         onDebug: (debugMsg) => {
                             if (plugin.settings.debug)
                                 console.debug(`[CopilotMCP] ${debugMsg}`);
@@ -458,20 +785,30 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
             setStreamingContent("");
             setIsStreaming(false);
             setLiveToolCalls([]);
+            setRetryStatus(null);
             setIsProcessing(false);
+            setIsStopping(false);
+            approvalResolversRef.current.clear();
             abortRef.current = null;
         },
-        [app, plugin, conversationHistory, inputValue, isProcessing],
+        [
+            app,
+            plugin,
+            conversationHistory,
+            activeConversation,
+            inputValue,
+            isProcessing,
+            mode,
+            dryRun,
+        ],
     );
 
+    // Cancels the HTTP request and skips remaining tool calls. handleSend
+    // finishes the cleanup once the engine has recorded the partial turn.
     const handleStop = () => {
         abortRef.current?.abort();
-        streamingAccumRef.current = "";
-        setStreamingContent("");
-        setIsStreaming(false);
-        setLiveToolCalls([]);
-        setIsProcessing(false);
-        abortRef.current = null;
+        resolveAllApprovals(false);
+        setIsStopping(true);
     };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -497,9 +834,30 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                     ))}
                 </ModelSelect>
 
+                <ModeSelect
+                    className="dropdown"
+                    aria-label="Chat mode"
+                    title={CHAT_MODES.find((m) => m.value === mode)?.title}
+                    value={mode}
+                    onChange={handleModeChange}
+                >
+                    {CHAT_MODES.map((m) => (
+                        <option key={m.value} value={m.value} title={m.title}>
+                            {m.label}
+                        </option>
+                    ))}
+                </ModeSelect>
+
+                <IconButton
+                    aria-label="Chat history"
+                    onClick={() => setShowHistory((v) => !v)}
+                    disabled={isProcessing}
+                    dangerouslySetInnerHTML={{ __html: SVG_HISTORY }}
+                />
                 <IconButton
                     aria-label="New chat"
                     onClick={handleNewChat}
+                    disabled={isProcessing}
                     dangerouslySetInnerHTML={{ __html: SVG_NEW_CHAT }}
                 />
                 <IconButton
@@ -509,6 +867,15 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                 />
             </Header>
 
+            {showHistory && (
+                <HistoryPanel
+                    activeId={activeConversation?.id ?? null}
+                    onOpen={(id) => void openConversation(id)}
+                    onRenamed={handleConversationRenamed}
+                    onDeleted={handleConversationDeleted}
+                />
+            )}
+
             <MessagesArea>
                 {conversationHistory.length === 0 &&
                 !isStreaming &&
@@ -522,16 +889,35 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                                 msg={msg}
                                 app={app}
                                 component={component}
+                                canRevert={!isProcessing}
+                                onRevert={(m) => void revertTurns([m])}
+                                canExecutePlan={
+                                    !isProcessing &&
+                                    i === conversationHistory.length - 1
+                                }
+                                onExecutePlan={() =>
+                                    void handleSend(EXECUTE_PLAN_PROMPT, "agent")
+                                }
+                                canResolveChangeset={!isProcessing}
+                                onResolveChangeset={(m, selected) =>
+                                    void resolveChangeset(m, selected)
+                                }
+                                onTogglePin={togglePin}
                             />
                         ))}
 
                         {liveToolCalls.length > 0 && (
-                            <LiveToolCallsBlock toolCalls={liveToolCalls} />
+                            <LiveToolCallsBlock
+                                toolCalls={liveToolCalls}
+                                onApproval={handleApproval}
+                            />
                         )}
 
                         {isStreaming && (
                             <StreamingMessageBlock content={streamingContent} />
                         )}
+
+                        {retryStatus && <RetryNotice status={retryStatus} />}
                     </>
                 )}
                 <div ref={messagesEndRef} />
@@ -548,8 +934,21 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
                     disabled={false}
                 />
                 <InputActions>
+                    <DryRunToggle
+                        title="Keep the agent's changes aside until you apply them"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={dryRun}
+                            disabled={isProcessing || mode !== "agent"}
+                            onChange={(e) => setDryRun(e.target.checked)}
+                        />
+                        Dry run
+                    </DryRunToggle>
                     {isProcessing ? (
-                        <StopButton onClick={handleStop}>Stop</StopButton>
+                        <StopButton onClick={handleStop} disabled={isStopping}>
+                            {isStopping ? "Stopping..." : "Stop"}
+                        </StopButton>
                     ) : (
                         <SendButton
                             className="mod-cta"
@@ -564,6 +963,113 @@ function ChatMainView({ onSignOut }: { onSignOut: () => void }) {
     );
 }
 
+// ============================================================
+// Conversation History
+// ============================================================
+
+function HistoryPanel({
+    activeId,
+    onOpen,
+    onRenamed,
+    onDeleted,
+}: {
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onRenamed: (id: string, title: string) => void;
+    onDeleted: (id: string) => void;
+}) {
+    const { plugin } = useCopilot();
+    const [query, setQuery] = useState("");
+    const [items, setItems] = useState<ConversationSummary[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editValue, setEditValue] = useState("");
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        void plugin.conversations.search(query).then((results) => {
+            if (!cancelled) setItems(results);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [plugin, query, version]);
+
+    const startRename = (item: ConversationSummary) => {
+        setEditingId(item.id);
+        setEditValue(item.title);
+    };
+
+    const commitRename = (id: string) => {
+        const title = editValue.trim();
+        setEditingId(null);
+        if (!title) return;
+        void plugin.conversations.rename(id, title).then(() => {
+            onRenamed(id, title);
+            setVersion((v) => v + 1);
+        });
+    };
+
+    const handleDelete = (id: string) => {
+        void plugin.conversations.delete(id).then(() => {
+            onDeleted(id);
+            setVersion((v) => v + 1);
+        });
+    };
+
+    return (
+        <HistoryContainer>
+            <HistorySearch
+                type="search"
+                placeholder="Search conversations..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+            />
+            {items.length === 0 ? (
+                <HistoryEmpty>
+                    {query ? "No matching conversations" : "No saved conversations"}
+                </HistoryEmpty>
+            ) : (
+                <HistoryList>
+                    {items.map((item) => (
+                        <HistoryItem
+                            key={item.id}
+                            $active={item.id === activeId}
+                        >
+                            {editingId === item.id ? (
+                                <HistoryRenameInput
+                                    autoFocus
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={() => commitRename(item.id)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") commitRename(item.id);
+                                        if (e.key === "Escape") setEditingId(null);
+                                    }}
+                                />
+                            ) : (
+                                <HistoryTitle onClick={() => onOpen(item.id)}>
+                                    <span>{item.title}</span>
+                                    <HistoryMeta>
+                                        {new Date(item.updatedAt).toLocaleString()}{" "}
+                                        · {item.messageCount} messages
+                                    </HistoryMeta>
+                                </HistoryTitle>
+                            )}
+                            <HistoryAction onClick={() => startRename(item)}>
+                                Rename
+                            </HistoryAction>
+                            <HistoryAction onClick={() => handleDelete(item.id)}>
+                                Delete
+                            </HistoryAction>
+                        </HistoryItem>
+                    ))}
+                </HistoryList>
+            )}
+        </HistoryContainer>
+    );
+}
+
 // ============================================================
 // Empty State
 // ============================================================
@@ -607,16 +1113,51 @@ function MessageItem({
     msg,
     app,
     component,
+    canRevert,
+    onRevert,
+    canExecutePlan,
+    onExecutePlan,
+    canResolveChangeset,
+    onResolveChangeset,
+    onTogglePin,
 }: {
     msg: ConversationMessage;
     app: App;
     component: Component;
+    canRevert: boolean;
+    onRevert: (msg: ConversationMessage) => void;
+    /** Only the latest plan can be executed, and not while a turn runs */
+    canExecutePlan: boolean;
+    onExecutePlan: () => void;
+    canResolveChangeset: boolean;
+    /** Applies the changes at the given indexes; an empty list discards */
+    onResolveChangeset: (msg: ConversationMessage, selected: number[]) => void;
+    onTogglePin: (msg: ConversationMessage) => void;
 }) {
-    if (msg.role === "tool") return null;
+    const summaryNote = msg.contextSummary ? (
+        <ContextSummaryNote title={msg.contextSummary}>
+            Messages up to here are sent to the model as a summary
+        </ContextSummaryNote>
+    ) : null;
+
+    if (msg.role === "tool") return summaryNote;
 
     return (
         <>
-            <MessageRole>{msg.role === "user" ? "You" : "Copilot"}</MessageRole>
+            <MessageRole>
+                <span>{msg.role === "user" ? "You" : "Copilot"}</span>
+                <PinButton
+                    $pinned={!!msg.pinned}
+                    onClick={() => onTogglePin(msg)}
+                    title={
+                        msg.pinned
+                            ? "Pinned: always sent to the model. Click to unpin."
+                            : "Pin: always send this message to the model"
+                    }
+                >
+                    {msg.pinned ? "Pinned" : "Pin"}
+                </PinButton>
+            </MessageRole>
             <MessageBubble $role={msg.role}>
                 {msg.role === "user" && (
                     <MessageContent>{msg.content}</MessageContent>
@@ -665,13 +1206,164 @@ function MessageItem({
                                 component={component}
                             />
                         )}
+                        {msg.checkpoint &&
+                            msg.checkpoint.entries.length > 0 && (
+                                <CheckpointBar>
+                                    <span>
+                                        {msg.checkpoint.entries.length} vault
+                                        change(s)
+                                    </span>
+                                    {msg.checkpoint.revertedAt ? (
+                                        <span>Reverted</span>
+                                    ) : (
+                                        <button
+                                            disabled={!canRevert}
+                                            onClick={() => onRevert(msg)}
+                                        >
+                                            Revert this turn
+                                        </button>
+                                    )}
+                                </CheckpointBar>
+                            )}
+                        {msg.changeset && (
+                            <ChangesetPanel
+                                changes={msg.changeset.changes}
+                                resolvedAt={msg.changeset.resolvedAt}
+                                applied={msg.changeset.applied}
+                                disabled={!canResolveChangeset}
+                                onResolve={(selected) =>
+                                    onResolveChangeset(msg, selected)
+                                }
+                            />
+                        )}
+                        {msg.proposedPlan && canExecutePlan && (
+                            <CheckpointBar>
+                                <span>Proposed changes, not yet made</span>
+                                <button
+                                    className="mod-cta"
+                                    onClick={onExecutePlan}
+                                    title="Run this plan in agent mode"
+                                >
+                                    Execute plan
+                                </button>
+                            </CheckpointBar>
+                        )}
                     </>
                 )}
             </MessageBubble>
+            {summaryNote}
         </>
     );
 }
 
+// ============================================================
+// Dry-run Changeset
+// ============================================================
+
+const CHANGE_LABELS: Record<DryRunChange["kind"], string> = {
+    created: "New",
+    modified: "Edit",
+    renamed: "Move",
+    deleted: "Delete",
+};
+
+function ChangesetPanel({
+    changes,
+    resolvedAt,
+    applied,
+    disabled,
+    onResolve,
+}: {
+    changes: DryRunChange[];
+    resolvedAt?: number;
+    applied?: number[];
+    disabled: boolean;
+    onResolve: (selected: number[]) => void;
+}) {
+    const [selected, setSelected] = useState(
+        () => new Set(changes.map((_, i) => i)),
+    );
+
+    if (resolvedAt) {
+        return (
+            <CheckpointBar>
+                <span>
+                    {applied && applied.length > 0
+                        ? `Applied ${applied.length} of ${changes.length} dry-run change(s)`
+                        : "Dry-run changes discarded"}
+                </span>
+            </CheckpointBar>
+        );
+    }
+
+    const toggle = (index: number) =>
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+
+    return (
+        <ChangesetContainer>
+            <CheckpointBar>
+                <span>{changes.length} change(s) from a dry run, not yet made</span>
+            </CheckpointBar>
+            {changes.map((change, i) => (
+                <ChangesetItem key={i}>
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={selected.has(i)}
+                            onChange={() => toggle(i)}
+                        />
+                        <ChangeKind $kind={change.kind}>
+                            {CHANGE_LABELS[change.kind]}
+                        </ChangeKind>
+                        <span>
+                            {change.oldPath
+                                ? `${change.oldPath} → ${change.path}`
+                                : change.path}
+                            {change.isFolder ? "/" : ""}
+                        </span>
+                    </label>
+                    {(change.before !== null || change.after !== null) && (
+                        <FileDiffView
+                            diff={computeFileDiff(
+                                change.path,
+                                change.before ?? "",
+                                change.after ?? "",
+                            )}
+                        />
+                    )}
+                </ChangesetItem>
+            ))}
+            <CheckpointBar>
+                <button disabled={disabled} onClick={() => onResolve([])}>
+                    Discard
+                </button>
+                <span>
+                    <button
+                        disabled={disabled || selected.size === 0}
+                        onClick={() =>
+                            onResolve([...selected].sort((a, b) => a - b))
+                        }
+                    >
+                        Apply selected
+                    </button>{" "}
+                    <button
+                        className="mod-cta"
+                        disabled={disabled}
+                        onClick={() => onResolve(changes.map((_, i) => i))}
+                    >
+                        Apply all
+                    </button>
+                </span>
+            </CheckpointBar>
+        </ChangesetContainer>
+    );
+}
+
 // ============================================================
 // Markdown Content (uses Obsidian MarkdownRenderer)
 // ============================================================
@@ -711,6 +1403,28 @@ function StreamingMessageBlock({ content }: { content: string }) {
     );
 }
 
+// ============================================================
+// Retry Status
+// ============================================================
+
+function RetryNotice({ status }: { status: RetryStatus }) {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 250);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    const seconds = Math.ceil((status.retryAt - now) / 1000);
+    return (
+        <RetryNoticeBar>
+            {status.reason},{" "}
+            {seconds > 0 ? `retrying in ${seconds}s` : "retrying now"} (retry{" "}
+            {status.attempt} of {status.maxRetries})
+        </RetryNoticeBar>
+    );
+}
+
 // ============================================================
 // Tool Call Blocks
 // ============================================================
@@ -728,6 +1442,9 @@ function ToolResultBlock({ result }: { result: ToolCallResult }) {
                 ) : (
                     <pre>{text}</pre>
                 )}
+                {result.diffs?.map((diff, i) => (
+                    <FileDiffView key={i} diff={diff} />
+                ))}
             </ToolResult>
         );
     }
@@ -738,6 +1455,16 @@ function ToolResultBlock({ result }: { result: ToolCallResult }) {
             </ToolResult>
         );
     }
+    if (result.status === "rejected" || result.status === "cancelled") {
+        return (
+            <ToolResult $status="rejected">
+                <pre>
+                    {result.status === "rejected" ? "Rejected: " : ""}
+                    {result.error}
+                </pre>
+            </ToolResult>
+        );
+    }
     if (result.status === "running") {
         return (
             <ToolResult $status="running">
@@ -748,11 +1475,139 @@ function ToolResultBlock({ result }: { result: ToolCallResult }) {
     return null;
 }
 
-function LiveToolCallsBlock({ toolCalls }: { toolCalls: LiveToolCall[] }) {
+// ============================================================
+// Diff Preview
+// ============================================================
+
+function FileDiffView({ diff }: { diff: FileDiff }) {
+    const [split, setSplit] = useState(false);
+
+    return (
+        <DiffContainer>
+            <summary>
+                <span>{diff.path}</span>
+                <DiffStat $type="add">+{diff.added}</DiffStat>
+                <DiffStat $type="remove">-{diff.removed}</DiffStat>
+            </summary>
+            <DiffToolbar>
+                <button onClick={() => setSplit((v) => !v)}>
+                    {split ? "Unified" : "Side by side"}
+                </button>
+            </DiffToolbar>
+            {diff.hunks.length === 0 ? (
+                <DiffEmpty>No changes</DiffEmpty>
+            ) : (
+                diff.hunks.map((hunk, i) =>
+                    split ? (
+                        <SplitHunk key={i} hunk={hunk} />
+                    ) : (
+                        <UnifiedHunk key={i} hunk={hunk} />
+                    ),
+                )
+            )}
+        </DiffContainer>
+    );
+}
+
+function hunkHeader(hunk: DiffHunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function UnifiedHunk({ hunk }: { hunk: DiffHunk }) {
+    return (
+        <DiffTable>
+            <tbody>
+                <tr>
+                    <DiffHunkHeader colSpan={3}>{hunkHeader(hunk)}</DiffHunkHeader>
+                </tr>
+                {hunk.lines.map((line, i) => (
+                    <DiffRow key={i} $type={line.type}>
+                        <DiffGutter>{line.oldLine ?? ""}</DiffGutter>
+                        <DiffGutter>{line.newLine ?? ""}</DiffGutter>
+                        <DiffText>
+                            {line.type === "add"
+                                ? "+"
+                                : line.type === "remove"
+                                  ? "-"
+                                  : " "}
+                            {line.text}
+                        </DiffText>
+                    </DiffRow>
+                ))}
+            </tbody>
+        </DiffTable>
+    );
+}
+
+/**
+ * Pair each run of removed lines with the following run of added lines so
+ * replacements line up left/right; context lines appear on both sides.
+ */
+function pairHunkLines(
+    lines: DiffLine[],
+): Array<[DiffLine | null, DiffLine | null]> {
+    const rows: Array<[DiffLine | null, DiffLine | null]> = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === "context") {
+            rows.push([lines[i], lines[i]]);
+            i++;
+            continue;
+        }
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (i < lines.length && lines[i].type === "remove") {
+            removed.push(lines[i++]);
+        }
+        while (i < lines.length && lines[i].type === "add") {
+            added.push(lines[i++]);
+        }
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push([removed[k] ?? null, added[k] ?? null]);
+        }
+    }
+    return rows;
+}
+
+function SplitHunk({ hunk }: { hunk: DiffHunk }) {
+    return (
+        <DiffTable>
+            <tbody>
+                <tr>
+                    <DiffHunkHeader colSpan={4}>{hunkHeader(hunk)}</DiffHunkHeader>
+                </tr>
+                {pairHunkLines(hunk.lines).map(([left, right], i) => (
+                    <tr key={i}>
+                        <DiffGutter>{left?.oldLine ?? ""}</DiffGutter>
+                        <DiffCell $type={left?.type ?? "empty"}>
+                            {left?.text ?? ""}
+                        </DiffCell>
+                        <DiffGutter>{right?.newLine ?? ""}</DiffGutter>
+                        <DiffCell $type={right?.type ?? "empty"}>
+                            {right?.text ?? ""}
+                        </DiffCell>
+                    </tr>
+                ))}
+            </tbody>
+        </DiffTable>
+    );
+}
+
+function LiveToolCallsBlock({
+    toolCalls,
+    onApproval,
+}: {
+    toolCalls: LiveToolCall[];
+    onApproval: (
+        toolCallId: string,
+        toolName: string,
+        decision: ApprovalDecision,
+    ) => void;
+}) {
     return (
         <ToolCallsBlock>
-            {toolCalls.map((tc, i) => (
-                <ToolCallItem key={i}>
+            {toolCalls.map((tc) => (
+                <ToolCallItem key={tc.toolCallId}>
                     <ToolCallHeader>
                         <ToolName>{tc.toolName}</ToolName>
                         <ToolStatus>{tc.status}</ToolStatus>
@@ -760,6 +1615,44 @@ function LiveToolCallsBlock({ toolCalls }: { toolCalls: LiveToolCall[] }) {
                     <ToolArgs>
                         <code>{JSON.stringify(tc.args, null, 2)}</code>
                     </ToolArgs>
+                    {tc.awaitingApproval && (
+                        <ApprovalActions>
+                            <button
+                                className="mod-cta"
+                                onClick={() =>
+                                    onApproval(
+                                        tc.toolCallId,
+                                        tc.toolName,
+                                        "approve",
+                                    )
+                                }
+                            >
+                                Approve
+                            </button>
+                            <button
+                                onClick={() =>
+                                    onApproval(
+                                        tc.toolCallId,
+                                        tc.toolName,
+                                        "reject",
+                                    )
+                                }
+                            >
+                                Reject
+                            </button>
+                            <button
+                                onClick={() =>
+                                    onApproval(
+                                        tc.toolCallId,
+                                        tc.toolName,
+                                        "always",
+                                    )
+                                }
+                            >
+                                Always allow
+                            </button>
+                        </ApprovalActions>
+                    )}
                 </ToolCallItem>
             ))}
         </ToolCallsBlock>
@@ -779,6 +1672,7 @@ function tryParseArgs(args?: string): unknown {
 }
 
 const SVG_NEW_CHAT = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path><line x1="12" y1="8" x2="12" y2="16"></line><line x1="8" y1="12" x2="16" y2="12"></line></svg>`;
+const SVG_HISTORY = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path><polyline points="3 3 3 8 8 8"></polyline><polyline points="12 7 12 12 15 15"></polyline></svg>`;
 const SVG_SIGN_OUT = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path><polyline points="16 17 21 12 16 7"></polyline><line x1="21" y1="12" x2="9" y2="12"></line></svg>`;
 
 // ============================================================
@@ -884,6 +1778,11 @@ const ModelSelect = styled.select`
     font-size: 13px;
 `;
 
+const ModeSelect = styled.select`
+    flex-shrink: 0;
+    font-size: 13px;
+`;
+
 const IconButton = styled.button`
     background: none;
     border: none;
@@ -900,6 +1799,80 @@ const IconButton = styled.button`
     }
 `;
 
+/* History */
+const HistoryContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+    padding: 8px 12px;
+    border-bottom: 1px solid var(--background-modifier-border);
+    max-height: 50%;
+    flex-shrink: 0;
+`;
+
+const HistorySearch = styled.input`
+    width: 100%;
+    font-size: 13px;
+`;
+
+const HistoryEmpty = styled.div`
+    font-size: 12px;
+    color: var(--text-muted);
+    padding: 4px 0;
+`;
+
+const HistoryList = styled.div`
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+`;
+
+const HistoryItem = styled.div<{ $active: boolean }>`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 4px 6px;
+    border-radius: 4px;
+    background: ${({ $active }) =>
+        $active ? "var(--background-modifier-active-hover)" : "transparent"};
+
+    &:hover {
+        background: var(--background-modifier-hover);
+    }
+`;
+
+const HistoryTitle = styled.div`
+    flex: 1;
+    min-width: 0;
+    cursor: pointer;
+    display: flex;
+    flex-direction: column;
+    font-size: 13px;
+
+    span {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+    }
+`;
+
+const HistoryMeta = styled.div`
+    font-size: 11px;
+    color: var(--text-muted);
+`;
+
+const HistoryRenameInput = styled.input`
+    flex: 1;
+    font-size: 13px;
+`;
+
+const HistoryAction = styled.button`
+    font-size: 11px;
+    padding: 2px 6px;
+    flex-shrink: 0;
+`;
+
 /* Messages */
 const MessagesArea = styled.div`
     flex: 1;
@@ -952,6 +1925,9 @@ const ExampleButton = styled.button`
 `;
 
 const MessageRole = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
     font-size: 11px;
     font-weight: 600;
     color: var(--text-muted);
@@ -975,6 +1951,74 @@ const MessageContent = styled.div`
     overflow-wrap: break-word;
 `;
 
+const PinButton = styled.button<{ $pinned: boolean }>`
+    font-size: 10px;
+    padding: 0 6px;
+    height: auto;
+    box-shadow: none;
+    background: transparent;
+    color: ${(p) => (p.$pinned ? "var(--text-accent)" : "var(--text-faint)")};
+    text-transform: none;
+    letter-spacing: normal;
+`;
+
+const ContextSummaryNote = styled.div`
+    margin: 8px 0;
+    padding-top: 4px;
+    border-top: 1px dashed var(--background-modifier-border);
+    font-size: 11px;
+    color: var(--text-faint);
+    text-align: center;
+`;
+
+const CheckpointBar = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 6px;
+    margin-top: 6px;
+    font-size: 11px;
+    color: var(--text-muted);
+
+    button {
+        font-size: 11px;
+        padding: 2px 8px;
+    }
+`;
+
+const ChangesetContainer = styled.div`
+    margin-top: 6px;
+    padding-top: 4px;
+    border-top: 1px dashed var(--background-modifier-border);
+`;
+
+const ChangesetItem = styled.div`
+    margin: 4px 0;
+    font-size: 12px;
+
+    label {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        font-family: var(--font-monospace);
+        word-break: break-all;
+    }
+`;
+
+const ChangeKind = styled.span<{ $kind: DryRunChange["kind"] }>`
+    flex-shrink: 0;
+    font-family: var(--font-interface);
+    font-size: 10px;
+    font-weight: 600;
+    text-transform: uppercase;
+    color: ${(p) =>
+        p.$kind === "created"
+            ? "var(--color-green)"
+            : p.$kind === "deleted"
+              ? "var(--color-red)"
+              : "var(--text-accent)"};
+`;
+
 /* Tool calls */
 const ToolCallsBlock = styled.div`
     display: flex;
@@ -1043,7 +2087,107 @@ const ToolResult = styled.div<{ $status: string }>`
         max-height: 200px;
         overflow-y: auto;
         color: ${({ $status }) =>
-            $status === "error" ? "var(--text-error)" : "var(--text-normal)"};
+            $status === "error"
+                ? "var(--text-error)"
+                : $status === "rejected"
+                    ? "var(--text-warning)"
+                    : "var(--text-normal)"};
+    }
+`;
+
+/* Diff preview */
+const DIFF_BACKGROUNDS: Record<string, string> = {
+    add: "rgba(var(--color-green-rgb), 0.15)",
+    remove: "rgba(var(--color-red-rgb), 0.15)",
+    empty: "var(--background-secondary)",
+    context: "transparent",
+};
+
+const DiffContainer = styled.details`
+    margin-top: 6px;
+
+    summary {
+        cursor: pointer;
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        font-family: var(--font-monospace);
+        font-size: 11px;
+    }
+`;
+
+const DiffStat = styled.span<{ $type: string }>`
+    color: ${({ $type }) =>
+        $type === "add" ? "var(--color-green)" : "var(--color-red)"};
+`;
+
+const DiffToolbar = styled.div`
+    display: flex;
+    justify-content: flex-end;
+    margin: 4px 0;
+
+    button {
+        font-size: 11px;
+        padding: 2px 8px;
+    }
+`;
+
+const DiffEmpty = styled.div`
+    font-size: 11px;
+    color: var(--text-muted);
+`;
+
+const DiffTable = styled.table`
+    width: 100%;
+    border-collapse: collapse;
+    table-layout: fixed;
+    font-family: var(--font-monospace);
+    font-size: 11px;
+    margin-bottom: 4px;
+    background: var(--background-primary);
+`;
+
+const DiffHunkHeader = styled.td`
+    color: var(--text-muted);
+    background: var(--background-secondary);
+    padding: 2px 6px;
+`;
+
+const DiffRow = styled.tr<{ $type: string }>`
+    background: ${({ $type }) => DIFF_BACKGROUNDS[$type]};
+`;
+
+const DiffGutter = styled.td`
+    width: 3em;
+    text-align: right;
+    padding: 0 4px;
+    color: var(--text-faint);
+    user-select: none;
+    vertical-align: top;
+`;
+
+const DiffText = styled.td`
+    white-space: pre-wrap;
+    word-break: break-all;
+    padding: 0 4px;
+`;
+
+const DiffCell = styled.td<{ $type: string }>`
+    white-space: pre-wrap;
+    word-break: break-all;
+    padding: 0 4px;
+    vertical-align: top;
+    background: ${({ $type }) => DIFF_BACKGROUNDS[$type]};
+`;
+
+const ApprovalActions = styled.div`
+    display: flex;
+    gap: 6px;
+    margin-top: 6px;
+
+    button {
+        font-size: 12px;
+        padding: 2px 10px;
     }
 `;
 
@@ -1052,6 +2196,13 @@ const RunningSpan = styled.span`
     font-style: italic;
 `;
 
+const RetryNoticeBar = styled.div`
+    margin: 4px 0 8px;
+    font-size: 12px;
+    font-style: italic;
+    color: var(--text-warning);
+`;
+
 /* Streaming */
 const StreamingContent = styled.div`
     word-wrap: break-word;
@@ -1097,9 +2248,19 @@ const InputTextarea = styled.textarea`
 const InputActions = styled.div`
     display: flex;
     justify-content: flex-end;
+    align-items: center;
+    gap: 8px;
     margin-top: 6px;
 `;
 
+const DryRunToggle = styled.label`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    font-size: 12px;
+    color: var(--text-muted);
+`;
+
 const SendButton = styled.button`
     font-size: 13px;
     padding: 4px 16px;
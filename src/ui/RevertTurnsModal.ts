@@ -0,0 +1,50 @@
+// ============================================================
+// Revert Turns Modal - Asks how many agent turns to roll back
+// ============================================================
+
+import { App, Modal, Setting } from "obsidian";
+
+export class RevertTurnsModal extends Modal {
+  private count = 1;
+  private onSubmit: (count: number) => void;
+
+  constructor(app: App, onSubmit: (count: number) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName("Revert agent changes").setHeading();
+
+    new Setting(contentEl)
+      .setName("Number of turns")
+      .setDesc(
+        "Undo the vault changes made by this many of the most recent agent turns."
+      )
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+        text.setValue(String(this.count)).onChange((value) => {
+          const parsed = parseInt(value, 10);
+          this.count = Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+        });
+      });
+
+    new Setting(contentEl).addButton((btn) => {
+      btn
+        .setButtonText("Revert")
+        .setWarning()
+        .onClick(() => {
+          this.close();
+          this.onSubmit(this.count);
+        });
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -2,12 +2,61 @@
 // Settings Tab
 // ============================================================
 
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting, debounce } from "obsidian";
 import type CopilotMCPPlugin from "../main";
+import type {
+  EmbeddingProviderKind,
+  ExternalMcpServerConfig,
+  ExternalMcpTransport,
+  PathPolicyRules,
+  ToolApprovalPolicy,
+} from "../types";
 import { AVAILABLE_MODELS } from "../types";
+import { MCP_ENDPOINT_PATH, generateMcpToken } from "../mcp/server";
+import { generateId } from "../copilot/engine";
+import type { RegisteredTool, ToolRiskLevel } from "../mcp/registry";
+
+const RISK_LABELS: Record<ToolRiskLevel, string> = {
+  read: "read-only",
+  write: "changes notes",
+  destructive: "can delete or overwrite",
+};
+
+/** Parse "key<sep>value" lines, skipping blanks and lines without a separator. */
+function parseKeyValueLines(
+  text: string,
+  separator: string
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(separator);
+    if (idx <= 0) continue;
+    const key = line.slice(0, idx).trim();
+    if (key) result[key] = line.slice(idx + separator.length).trim();
+  }
+  return result;
+}
+
+function formatKeyValueLines(
+  values: Record<string, string>,
+  separator: string
+): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join("\n");
+}
 
 export class CopilotMCPSettingTab extends PluginSettingTab {
   plugin: CopilotMCPPlugin;
+  private unsubscribeTools: (() => void) | null = null;
+
+  private restartMcpServerDebounced = debounce(
+    () => {
+      void this.plugin.restartMcpServer();
+    },
+    1000,
+    true
+  );
 
   constructor(app: App, plugin: CopilotMCPPlugin) {
     super(app, plugin);
@@ -126,6 +175,278 @@ export class CopilotMCPSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName("Parallel tool calls")
+      .setDesc(
+        "How many read-only tool calls from one response may run at the same time. Calls that change the vault always run one at a time."
+      )
+      .addSlider((slider) => {
+        slider
+          .setLimits(1, 8, 1)
+          .setValue(this.plugin.settings.toolConcurrency)
+          .setDynamicTooltip()
+          .onChange((value) => {
+            this.plugin.settings.toolConcurrency = value;
+            void this.plugin.saveSettings();
+          });
+      });
+
+    // --- Vault Access ---
+    new Setting(containerEl)
+      .setName("Vault access")
+      .setDesc(
+        `Limit which files the tools may read and change. Enter one path or glob per line: * matches within a folder, ** across folders, and a folder covers everything inside it. The ${this.app.vault.configDir} folder and the trash are always off limits.`
+      )
+      .setHeading();
+
+    const pathRules: {
+      key: keyof PathPolicyRules;
+      name: string;
+      desc: string;
+    }[] = [
+      {
+        key: "allow",
+        name: "Allowed paths",
+        desc: "Only these paths are accessible. Leave empty to allow the whole vault.",
+      },
+      {
+        key: "deny",
+        name: "Denied paths",
+        desc: "Never accessible, even if allowed above.",
+      },
+      {
+        key: "readOnly",
+        name: "Read-only paths",
+        desc: "Can be read and searched but not created, edited, moved or deleted.",
+      },
+    ];
+    for (const rule of pathRules) {
+      new Setting(containerEl)
+        .setName(rule.name)
+        .setDesc(rule.desc)
+        .addTextArea((text) => {
+          text
+            .setValue(this.plugin.settings.pathPolicy[rule.key].join("\n"))
+            .onChange((value) => {
+              this.plugin.settings.pathPolicy[rule.key] = value
+                .split("\n")
+                .map((line) => line.trim())
+                .filter((line) => line.length > 0);
+              void this.plugin.saveSettings();
+            });
+        });
+    }
+
+    // --- Semantic Search ---
+    new Setting(containerEl)
+      .setName("Semantic search")
+      .setDesc(
+        "Lets the model find notes by meaning. Notes are split at headings and embedded into a local index in the plugin folder, updated before each search."
+      )
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Embedding provider")
+      .setDesc(
+        "Changing the provider or model rebuilds the index on the next search."
+      )
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("copilot", "Copilot account")
+          .addOption("openai", "Compatible endpoint")
+          .addOption("hashing", "Offline keyword hashing")
+          .setValue(this.plugin.settings.embeddingProvider)
+          .onChange((value) => {
+            this.plugin.settings.embeddingProvider =
+              value as EmbeddingProviderKind;
+            void this.plugin.saveSettings().then(() => this.display());
+          });
+      });
+
+    if (this.plugin.settings.embeddingProvider !== "hashing") {
+      new Setting(containerEl)
+        .setName("Embedding model")
+        .addText((text) => {
+          text
+            .setValue(this.plugin.settings.embeddingModel)
+            .onChange((value) => {
+              this.plugin.settings.embeddingModel = value.trim();
+              void this.plugin.saveSettings();
+            });
+        });
+    }
+
+    if (this.plugin.settings.embeddingProvider === "openai") {
+      new Setting(containerEl)
+        .setName("Endpoint")
+        .setDesc(
+          "Base address of an embeddings service with the common /embeddings route, e.g. http://localhost:11434/v1 for a local server with a model such as nomic-embed-text."
+        )
+        .addText((text) => {
+          text
+            .setValue(this.plugin.settings.embeddingEndpoint)
+            .onChange((value) => {
+              this.plugin.settings.embeddingEndpoint = value.trim();
+              void this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName("API key")
+        .setDesc("Sent as a bearer token. Leave empty for local servers.")
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text
+            .setValue(this.plugin.settings.embeddingApiKey)
+            .onChange((value) => {
+              this.plugin.settings.embeddingApiKey = value.trim();
+              void this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName("Rebuild index")
+      .setDesc(
+        "Embed the whole vault now. Searches only index a few new or changed notes each, so build the index here first. Large vaults can take several minutes."
+      )
+      .addButton((btn) => {
+        btn.setButtonText("Rebuild").onClick(() => {
+          btn.setDisabled(true);
+          const notice = new Notice("Building semantic index...", 0);
+          void this.plugin.semanticIndex
+            .clear()
+            .then(() =>
+              this.plugin.semanticIndex.sync({
+                onProgress: ({ done, total }) => {
+                  notice.setMessage(
+                    `Building semantic index: ${done}/${total} notes`
+                  );
+                },
+              })
+            )
+            .then(() => {
+              notice.setMessage(
+                `Semantic index built: ${this.plugin.semanticIndex.chunkCount} sections`
+              );
+            })
+            .catch((err) => {
+              notice.setMessage(
+                `Semantic index failed: ${err instanceof Error ? err.message : String(err)}`
+              );
+            })
+            .finally(() => {
+              btn.setDisabled(false);
+              window.setTimeout(() => notice.hide(), 5000);
+            });
+        });
+      });
+
+    // --- MCP Server ---
+    new Setting(containerEl)
+      .setName("Tool server")
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Enable tool server")
+      .setDesc(
+        "Serve the vault tools on a local HTTP endpoint, so external clients on this machine can use them. Approval settings below also apply to external calls."
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.mcpServerEnabled)
+          .onChange((value) => {
+            this.plugin.settings.mcpServerEnabled = value;
+            void this.plugin
+              .saveSettings()
+              .then(() => this.plugin.restartMcpServer())
+              .then(() => this.display());
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Port")
+      .setDesc("Local port for the endpoint. Changes apply after a short delay.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text
+          .setValue(String(this.plugin.settings.mcpServerPort))
+          .onChange((value) => {
+            const port = parseInt(value, 10);
+            if (!Number.isInteger(port) || port < 1024 || port > 65535) return;
+            this.plugin.settings.mcpServerPort = port;
+            void this.plugin.saveSettings();
+            this.restartMcpServerDebounced();
+          });
+      });
+
+    if (this.plugin.settings.mcpServerEnabled) {
+      new Setting(containerEl)
+        .setName("Endpoint")
+        .setDesc(
+          `http://127.0.0.1:${this.plugin.settings.mcpServerPort}${MCP_ENDPOINT_PATH} (streamable HTTP)`
+        );
+
+      new Setting(containerEl)
+        .setName("Access token")
+        .setDesc(
+          "Clients must send this as a bearer token in the authorization header."
+        )
+        .addText((text) => {
+          text.setValue(this.plugin.settings.mcpServerToken).setDisabled(true);
+        })
+        .addButton((btn) => {
+          btn.setButtonText("Copy").onClick(() => {
+            void navigator.clipboard.writeText(
+              this.plugin.settings.mcpServerToken
+            );
+            new Notice("Token copied");
+          });
+        })
+        .addButton((btn) => {
+          btn
+            .setButtonText("Regenerate")
+            .setWarning()
+            .onClick(() => {
+              this.plugin.settings.mcpServerToken = generateMcpToken();
+              void this.plugin
+                .saveSettings()
+                .then(() => this.plugin.restartMcpServer())
+                .then(() => this.display());
+            });
+        });
+    }
+
+    // --- External Tool Servers ---
+    new Setting(containerEl)
+      .setName("External tool servers")
+      .setDesc(
+        "Connect other model context protocol servers. Their tools are offered to the model next to the vault tools, prefixed with the server name."
+      )
+      .setHeading();
+
+    for (const config of this.plugin.settings.externalMcpServers) {
+      this.displayExternalServer(containerEl, config);
+    }
+
+    new Setting(containerEl).addButton((btn) => {
+      btn.setButtonText("Add server").onClick(() => {
+        this.plugin.settings.externalMcpServers.push({
+          id: generateId(),
+          name: "server",
+          enabled: false,
+          transport: "stdio",
+          command: "",
+          args: [],
+          env: {},
+          url: "",
+          headers: {},
+          approvalPolicy: "ask",
+        });
+        void this.plugin.saveSettings().then(() => this.display());
+      });
+    });
+
     // --- Advanced ---
     new Setting(containerEl)
       .setName("Advanced")
@@ -145,28 +466,212 @@ export class CopilotMCPSettingTab extends PluginSettingTab {
 
     // --- Available Tools Info ---
     new Setting(containerEl)
-      .setName("Available vault tools")
+      .setName("Available tools")
+      .setDesc(
+        "Choose whether each tool runs immediately, asks for approval first, or is never run. File writes only ask when an existing file would be overwritten."
+      )
       .setHeading();
 
     const toolsList = containerEl.createDiv({ cls: "copilot-mcp-tools-list" });
-    const tools = [
-      { name: "vault_list_files", desc: "List files and folders" },
-      { name: "vault_read_file", desc: "Read file content" },
-      { name: "vault_write_file", desc: "Create or overwrite files" },
-      { name: "vault_edit_file", desc: "Edit specific text in a file" },
-      { name: "vault_search", desc: "Search file contents" },
-      { name: "vault_delete_file", desc: "Delete files" },
-      { name: "vault_rename_file", desc: "Rename or move files" },
-      { name: "vault_create_folder", desc: "Create folders" },
-      { name: "vault_get_active_file", desc: "Get currently open file" },
-      { name: "vault_append_to_file", desc: "Append content to a file" },
-      { name: "vault_insert_at_line", desc: "Insert content at a specific line" },
-    ];
+    const byCategory = new Map<string, RegisteredTool[]>();
+    for (const tool of this.plugin.tools.list()) {
+      const group = byCategory.get(tool.category) ?? [];
+      group.push(tool);
+      byCategory.set(tool.category, group);
+    }
 
-    for (const tool of tools) {
-      const toolEl = toolsList.createDiv({ cls: "copilot-mcp-tool-info" });
-      toolEl.createEl("code", { text: tool.name });
-      toolEl.createEl("span", { text: ` - ${tool.desc}` });
+    for (const [category, tools] of byCategory) {
+      new Setting(toolsList).setName(category).setHeading();
+      for (const tool of tools) {
+        const name = tool.definition.function.name;
+        new Setting(toolsList)
+          .setName(name)
+          .setDesc(
+            `${tool.summary ?? tool.definition.function.description} (${RISK_LABELS[tool.risk]})`
+          )
+          .setClass("copilot-mcp-tool-info")
+          .addDropdown((dropdown) => {
+            dropdown
+              .addOption("allow", "Allow")
+              .addOption("ask", "Ask first")
+              .addOption("deny", "Deny")
+              .setValue(
+                this.plugin.tools.resolvePolicy(
+                  name,
+                  this.plugin.settings.toolApprovalPolicies
+                )
+              )
+              .onChange((value) => {
+                this.plugin.settings.toolApprovalPolicies[name] =
+                  value as ToolApprovalPolicy;
+                void this.plugin.saveSettings();
+              });
+          });
+      }
     }
+
+    // Tools come and go as plugins load and servers connect
+    this.unsubscribeTools?.();
+    this.unsubscribeTools = this.plugin.tools.onChange(
+      debounce(() => this.display(), 100, true)
+    );
+  }
+
+  hide(): void {
+    this.plugin.onExternalToolsChange = null;
+    this.unsubscribeTools?.();
+    this.unsubscribeTools = null;
+  }
+
+  private displayExternalServer(
+    containerEl: HTMLElement,
+    config: ExternalMcpServerConfig
+  ): void {
+    const save = () => void this.plugin.saveSettings();
+    const status = this.plugin.externalTools.getStatus(config.id);
+    const statusText =
+      status.state === "connected"
+        ? `Connected, ${status.toolCount} tool(s)`
+        : status.state === "connecting"
+          ? "Connecting..."
+          : status.state === "error"
+            ? `Error: ${status.error ?? "unknown"}`
+            : "Not connected";
+
+    // Refresh the status line when a connection attempt finishes
+    this.plugin.onExternalToolsChange = () => this.display();
+
+    const serverEl = containerEl.createDiv({
+      cls: "copilot-mcp-external-server",
+    });
+
+    new Setting(serverEl)
+      .setName("Name")
+      .setDesc(statusText)
+      .addText((text) => {
+        text.setValue(config.name).onChange((value) => {
+          config.name = value.trim() || "server";
+          save();
+        });
+      })
+      .addToggle((toggle) => {
+        toggle
+          .setTooltip("Enabled")
+          .setValue(config.enabled)
+          .onChange((value) => {
+            config.enabled = value;
+            save();
+            void (value
+              ? this.plugin.externalTools.connect(config)
+              : this.plugin.externalTools.disconnect(config.id));
+          });
+      });
+
+    new Setting(serverEl).setName("Transport").addDropdown((dropdown) => {
+      dropdown
+        .addOption("stdio", "Local command (stdio)")
+        .addOption("http", "HTTP endpoint")
+        .setValue(config.transport)
+        .onChange((value) => {
+          config.transport = value as ExternalMcpTransport;
+          void this.plugin.saveSettings().then(() => this.display());
+        });
+    });
+
+    if (config.transport === "stdio") {
+      new Setting(serverEl)
+        .setName("Command")
+        .setDesc("Executable to start, for example an absolute path to the server binary.")
+        .addText((text) => {
+          text.setValue(config.command).onChange((value) => {
+            config.command = value.trim();
+            save();
+          });
+        });
+
+      new Setting(serverEl)
+        .setName("Arguments")
+        .setDesc("One argument per line.")
+        .addTextArea((text) => {
+          text.setValue(config.args.join("\n")).onChange((value) => {
+            config.args = value
+              .split("\n")
+              .map((a) => a.trim())
+              .filter((a) => a.length > 0);
+            save();
+          });
+        });
+
+      new Setting(serverEl)
+        .setName("Environment")
+        .setDesc("One variable per line, written as name=value.")
+        .addTextArea((text) => {
+          text
+            .setValue(formatKeyValueLines(config.env, "="))
+            .onChange((value) => {
+              config.env = parseKeyValueLines(value, "=");
+              save();
+            });
+        });
+    } else {
+      new Setting(serverEl)
+        .setName("URL")
+        .setDesc("Streamable HTTP endpoint of the server.")
+        .addText((text) => {
+          text.setValue(config.url).onChange((value) => {
+            config.url = value.trim();
+            save();
+          });
+        });
+
+      new Setting(serverEl)
+        .setName("Headers")
+        .setDesc("One header per line, e.g. authorization: bearer <token>.")
+        .addTextArea((text) => {
+          text
+            .setValue(formatKeyValueLines(config.headers, ": "))
+            .onChange((value) => {
+              config.headers = parseKeyValueLines(value, ":");
+              save();
+            });
+        });
+    }
+
+    new Setting(serverEl)
+      .setName("Tool approval")
+      .setDesc("Default policy for this server's tools.")
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("allow", "Allow")
+          .addOption("ask", "Ask first")
+          .addOption("deny", "Deny")
+          .setValue(config.approvalPolicy)
+          .onChange((value) => {
+            config.approvalPolicy = value as ToolApprovalPolicy;
+            save();
+          });
+      })
+      .addButton((btn) => {
+        btn.setButtonText("Reconnect").onClick(() => {
+          if (!config.enabled) {
+            new Notice("Enable the server first");
+            return;
+          }
+          void this.plugin.externalTools.connect(config);
+        });
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText("Remove")
+          .setWarning()
+          .onClick(() => {
+            this.plugin.settings.externalMcpServers =
+              this.plugin.settings.externalMcpServers.filter(
+                (c) => c.id !== config.id
+              );
+            void this.plugin.externalTools.disconnect(config.id);
+            void this.plugin.saveSettings().then(() => this.display());
+          });
+      });
   }
 }
@@ -0,0 +1,76 @@
+// ============================================================
+// Tool Approval Modal - Confirms tool calls from external clients
+// ============================================================
+
+import { App, Modal, Setting } from "obsidian";
+
+export class ToolApprovalModal extends Modal {
+  private toolName: string;
+  private args: Record<string, unknown>;
+  private source: string;
+  private resolve: (approved: boolean) => void;
+  private decided = false;
+
+  constructor(
+    app: App,
+    toolName: string,
+    args: Record<string, unknown>,
+    source: string,
+    resolve: (approved: boolean) => void
+  ) {
+    super(app);
+    this.toolName = toolName;
+    this.args = args;
+    this.source = source;
+    this.resolve = resolve;
+  }
+
+  /** Open the modal and wait for the user's decision. */
+  static request(
+    app: App,
+    toolName: string,
+    args: Record<string, unknown>,
+    source: string
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      new ToolApprovalModal(app, toolName, args, source, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.setTitle("Approve tool call");
+
+    contentEl.createEl("p", {
+      text: `${this.source} wants to run ${this.toolName}.`,
+    });
+    contentEl.createEl("pre", {
+      cls: "copilot-mcp-approval-args",
+      text: JSON.stringify(this.args, null, 2),
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) => {
+        btn
+          .setButtonText("Approve")
+          .setCta()
+          .onClick(() => this.decide(true));
+      })
+      .addButton((btn) => {
+        btn.setButtonText("Reject").onClick(() => this.decide(false));
+      });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Closing without a decision counts as a rejection
+    if (!this.decided) this.resolve(false);
+  }
+
+  private decide(approved: boolean): void {
+    this.decided = true;
+    this.resolve(approved);
+    this.close();
+  }
+}
@@ -0,0 +1,172 @@
+// ============================================================
+// Line Diff - Unified hunks for tool call previews
+// ============================================================
+
+import type { DiffHunk, DiffLine, FileDiff } from "../types";
+
+/** Above this many DP cells the changed region is shown as a full replace */
+const MAX_LCS_CELLS = 4_000_000;
+const DEFAULT_CONTEXT = 3;
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Line-level diff of the region between the common prefix and suffix,
+ * using an LCS table. Falls back to remove-all/add-all when the region is
+ * too large to diff in memory.
+ */
+function diffMiddle(
+  a: string[],
+  b: string[]
+): Array<{ type: DiffLine["type"]; text: string }> {
+  const n = a.length;
+  const m = b.length;
+  const ops: Array<{ type: DiffLine["type"]; text: string }> = [];
+
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (const text of a) ops.push({ type: "remove", text });
+    for (const text of b) ops.push({ type: "add", text });
+    return ops;
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "context", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "remove", text: a[i++] });
+    } else {
+      ops.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "remove", text: a[i++] });
+  while (j < m) ops.push({ type: "add", text: b[j++] });
+  return ops;
+}
+
+/** Full line-by-line diff with old/new line numbers. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops = [
+    ...a.slice(0, prefix).map((text) => ({ type: "context" as const, text })),
+    ...diffMiddle(
+      a.slice(prefix, a.length - suffix),
+      b.slice(prefix, b.length - suffix)
+    ),
+    ...a
+      .slice(a.length - suffix)
+      .map((text) => ({ type: "context" as const, text })),
+  ];
+
+  let oldLine = 1;
+  let newLine = 1;
+  return ops.map((op) => {
+    const line: DiffLine = {
+      type: op.type,
+      text: op.text,
+      oldLine: op.type === "add" ? null : oldLine++,
+      newLine: op.type === "remove" ? null : newLine++,
+    };
+    return line;
+  });
+}
+
+/** Group changed lines into hunks with `context` unchanged lines around them. */
+export function buildHunks(
+  lines: DiffLine[],
+  context = DEFAULT_CONTEXT
+): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] | null = null;
+  let trailingContext = 0;
+
+  const flush = () => {
+    if (!current) return;
+    // Drop context beyond the allowed trailing window
+    const lines = current.slice(
+      0,
+      current.length - Math.max(0, trailingContext - context)
+    );
+    const first = lines[0];
+    const oldCount = lines.filter((l) => l.type !== "add").length;
+    const newCount = lines.filter((l) => l.type !== "remove").length;
+    const firstOld = lines.find((l) => l.oldLine !== null)?.oldLine;
+    const firstNew = lines.find((l) => l.newLine !== null)?.newLine;
+    hunks.push({
+      oldStart: firstOld ?? (first.newLine ?? 1) - 1,
+      oldLines: oldCount,
+      newStart: firstNew ?? (first.oldLine ?? 1) - 1,
+      newLines: newCount,
+      lines,
+    });
+    current = null;
+    trailingContext = 0;
+  };
+
+  for (let idx = 0; idx < lines.length; idx++) {
+    const line = lines[idx];
+    if (line.type === "context") {
+      if (current) {
+        current.push(line);
+        trailingContext++;
+        if (trailingContext > context * 2) flush();
+      }
+      continue;
+    }
+
+    if (!current) {
+      current = lines.slice(Math.max(0, idx - context), idx);
+    }
+    current.push(line);
+    trailingContext = 0;
+  }
+  flush();
+
+  return hunks;
+}
+
+export function computeFileDiff(
+  path: string,
+  before: string,
+  after: string
+): FileDiff {
+  const lines = diffLines(before, after);
+  return {
+    path,
+    hunks: buildHunks(lines),
+    added: lines.filter((l) => l.type === "add").length,
+    removed: lines.filter((l) => l.type === "remove").length,
+  };
+}
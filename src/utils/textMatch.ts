@@ -0,0 +1,332 @@
+// ============================================================
+// Text Matching - Locate model-supplied text despite small drift
+// ============================================================
+
+/**
+ * How a match was found:
+ * - "exact": byte-for-byte
+ * - "whitespace": equal after normalizing whitespace, line endings and
+ *   typographic quotes/dashes
+ * - "fuzzy": whole lines that are similar enough
+ */
+export type MatchStrategy = "exact" | "whitespace" | "fuzzy";
+
+export interface TextMatch {
+  /** Offsets into the original content; `end` is exclusive */
+  start: number;
+  end: number;
+  /** 1 for exact and whitespace matches */
+  similarity: number;
+}
+
+export interface MatchResult {
+  strategy: MatchStrategy;
+  /** Non-overlapping, in document order */
+  matches: TextMatch[];
+}
+
+/** Best near miss, for telling the model what the text actually says */
+export interface MatchCandidate {
+  start: number;
+  end: number;
+  similarity: number;
+}
+
+/** Fuzzy matches must be at least this similar */
+export const FUZZY_THRESHOLD = 0.85;
+
+/** Windows compared in full after the cheap prefilter */
+const FUZZY_CANDIDATES = 8;
+
+/** Above this many characters only the prefilter score is used */
+const MAX_EDIT_DISTANCE_CHARS = 4_000;
+
+/** Fuzzy matching is skipped for larger files; it scores every window */
+const MAX_FUZZY_CONTENT_CHARS = 200_000;
+
+const TYPOGRAPHIC: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "‚": "'",
+  "‛": "'",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+};
+
+/**
+ * Normalize `text` for whitespace-tolerant comparison: typographic
+ * characters become ASCII and every run of whitespace (including line
+ * breaks and indentation) becomes one space. Returns the normalized
+ * text and, for each of its characters, the offset it came from.
+ */
+function normalizeWithMap(text: string): NormalizedText {
+  let out = "";
+  const map: number[] = [];
+  let pendingSpace = -1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (pendingSpace < 0) pendingSpace = i;
+      continue;
+    }
+    if (pendingSpace >= 0) {
+      if (out.length > 0) {
+        out += " ";
+        map.push(pendingSpace);
+      }
+      pendingSpace = -1;
+    }
+    const replacement = TYPOGRAPHIC[ch] ?? ch;
+    for (const r of replacement) {
+      out += r;
+      map.push(i);
+    }
+  }
+  return { text: out, map };
+}
+
+function normalize(text: string): string {
+  return normalizeWithMap(text).text;
+}
+
+function findAll(haystack: string, needle: string): number[] {
+  const positions: number[] = [];
+  if (!needle) return positions;
+  let from = 0;
+  for (;;) {
+    const index = haystack.indexOf(needle, from);
+    if (index < 0) return positions;
+    positions.push(index);
+    from = index + needle.length;
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+}
+
+function bigramCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice over character bigrams; cheap and order-insensitive.
+ * Returns a scorer so the bigrams of `target` are counted only once.
+ */
+function diceScorer(target: string): (text: string) => number {
+  const targetCounts = bigramCounts(target);
+  return (text) => {
+    if (text === target) return 1;
+    if (text.length < 2 || target.length < 2) return 0;
+    const used = new Map<string, number>();
+    let overlap = 0;
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      const available = targetCounts.get(bigram);
+      if (!available) continue;
+      const count = used.get(bigram) ?? 0;
+      if (count < available) {
+        used.set(bigram, count + 1);
+        overlap++;
+      }
+    }
+    return (2 * overlap) / (text.length + target.length - 2);
+  };
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  if (longest > MAX_EDIT_DISTANCE_CHARS) return diceScorer(b)(a);
+  return 1 - levenshtein(a, b) / longest;
+}
+
+/** Start offset of every line, plus the content length as a sentinel */
+function lineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") offsets.push(i + 1);
+  }
+  offsets.push(content.length + 1);
+  return offsets;
+}
+
+interface NormalizedText {
+  text: string;
+  map: number[];
+}
+
+/**
+ * Windows of whole lines scored against `search`, best first. Windows
+ * span as many lines as `search` has, give or take one. `normalized`
+ * is `content` passed through normalizeWithMap.
+ */
+function scoreWindows(
+  content: string,
+  normalized: NormalizedText,
+  search: string
+): MatchCandidate[] {
+  if (content.length > MAX_FUZZY_CONTENT_CHARS) return [];
+  const offsets = lineOffsets(content);
+  const lineCount = offsets.length - 1;
+  const target = normalize(search);
+  const searchLines = search.trim().split("\n").length;
+  if (!target) return [];
+
+  // Where each line starts in the normalized text. The space standing for
+  // a line break maps to the end of the previous line, so a slice between
+  // two of these holds whole lines plus at most one trailing space.
+  const { text, map } = normalized;
+  const lineStarts: number[] = [];
+  let index = 0;
+  for (const offset of offsets) {
+    while (index < map.length && map[index] < offset) index++;
+    lineStarts.push(index);
+  }
+  const windowText = (line: number, size: number) =>
+    text.slice(lineStarts[line], lineStarts[line + size]).trim();
+
+  const dice = diceScorer(target);
+  const windows: (MatchCandidate & { text: string })[] = [];
+  for (const size of [searchLines, searchLines - 1, searchLines + 1]) {
+    if (size < 1 || size > lineCount) continue;
+    for (let line = 0; line + size <= lineCount; line++) {
+      const windowed = windowText(line, size);
+      if (!windowed) continue;
+      const start = offsets[line];
+      let end = Math.max(start, offsets[line + size] - 1);
+      if (content[end - 1] === "\r") end--;
+      windows.push({
+        start,
+        end,
+        text: windowed,
+        similarity: dice(windowed),
+      });
+    }
+  }
+
+  // Prefilter with Dice, then rank the survivors by edit distance
+  windows.sort((a, b) => b.similarity - a.similarity);
+  return windows
+    .slice(0, FUZZY_CANDIDATES)
+    .map((w) => ({
+      start: w.start,
+      end: w.end,
+      similarity: similarity(w.text, target),
+    }))
+    // On ties prefer the tighter window, e.g. without a blank line
+    .sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        a.end - a.start - (b.end - b.start) ||
+        a.start - b.start
+    );
+}
+
+function removeOverlaps<T extends { start: number; end: number }>(
+  items: T[]
+): T[] {
+  const kept: T[] = [];
+  for (const item of items) {
+    if (kept.some((k) => item.start < k.end && k.start < item.end)) continue;
+    kept.push(item);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find `search` in `content`, trying exact, then whitespace-normalized,
+ * then fuzzy line matching. Returns null if no strategy matches.
+ */
+export function findText(
+  content: string,
+  search: string,
+  threshold = FUZZY_THRESHOLD
+): MatchResult | null {
+  const exact = findAll(content, search);
+  if (exact.length > 0) {
+    return {
+      strategy: "exact",
+      matches: exact.map((start) => ({
+        start,
+        end: start + search.length,
+        similarity: 1,
+      })),
+    };
+  }
+
+  const normalizedContent = normalizeWithMap(content);
+  const normalizedSearch = normalize(search);
+  // Whitespace at either edge of the search marks a word boundary: " cat"
+  // must not match inside "concatenate"
+  const { text, map } = normalizedContent;
+  const boundedStart = /^\s/.test(search);
+  const boundedEnd = /\s$/.test(search);
+  const loose = findAll(text, normalizedSearch).filter((index) => {
+    const after = index + normalizedSearch.length;
+    return (
+      (!boundedStart || index === 0 || text[index - 1] === " ") &&
+      (!boundedEnd || after === text.length || text[after] === " ")
+    );
+  });
+  if (loose.length > 0) {
+    return {
+      strategy: "whitespace",
+      matches: loose.map((index) => ({
+        start: map[index],
+        end: map[index + normalizedSearch.length - 1] + 1,
+        similarity: 1,
+      })),
+    };
+  }
+
+  const fuzzy = removeOverlaps(
+    scoreWindows(content, normalizedContent, search).filter(
+      (w) => w.similarity >= threshold
+    )
+  );
+  return fuzzy.length > 0 ? { strategy: "fuzzy", matches: fuzzy } : null;
+}
+
+/** The lines most similar to `search`, for an error message */
+export function findClosest(
+  content: string,
+  search: string
+): MatchCandidate | null {
+  return scoreWindows(content, normalizeWithMap(content), search)[0] ?? null;
+}
+
+/** 1-based line number of a character offset */
+export function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === "\n") line++;
+  }
+  return line;
+}